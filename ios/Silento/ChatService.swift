@@ -26,6 +26,8 @@ class ChatService: ObservableObject {
     private var currentServerURL: String?
     private var _clientId: String
     private var encryptionKey: SymmetricKey?
+    // Signed by the server for our client ID, per room; rejoining a room under the ID needs it
+    private var identityTokens: [String: String] = [:]
     
     // Public properties
     var clientId: String {
@@ -305,6 +307,10 @@ class ChatService: ObservableObject {
                 
                 print("✅ Room created successfully: \(roomId)")
                 
+                if let identityToken = json?["identityToken"] as? String {
+                    identityTokens[roomId] = identityToken
+                }
+                
                 // Connect to WebSocket
                 try await connectToWebSocket(serverURL: serverURL, roomId: roomId)
                 
@@ -370,7 +376,8 @@ class ChatService: ObservableObject {
                     messageType: nil,
                     mediaURL: nil,
                     fileName: nil,
-                    fileSize: nil
+                    fileSize: nil,
+                    identityToken: identityTokens[roomId]
                 ))
             } catch {
                 print("❌ Failed to send init message: \(error)")
@@ -565,7 +572,8 @@ class ChatService: ObservableObject {
         let initMessage = WebSocketMessage(
             type: "init",
             clientId: _clientId,
-            roomId: roomId
+            roomId: roomId,
+            identityToken: identityTokens[roomId]
         )
         
         print("📡 Sending WebSocket init message for room: \(roomId)")
@@ -869,6 +877,11 @@ class ChatService: ObservableObject {
             
             switch type {
             case "init-success":
+                if let identityToken = json["identityToken"] as? String,
+                   let roomId = currentRoomId {
+                    identityTokens[roomId] = identityToken
+                }
+                
                 if let peers = json["peers"] as? [String] {
                     await MainActor.run {
                         self.peers = peers
@@ -1128,7 +1141,8 @@ class ChatService: ObservableObject {
                     messageType: nil,
                     mediaURL: nil,
                     fileName: nil,
-                    fileSize: nil
+                    fileSize: nil,
+                    identityToken: identityTokens[roomId]
                 ))
             } catch {
                 print("❌ Failed to send init message: \(error)")
@@ -1488,8 +1502,9 @@ struct WebSocketMessage: Codable {
     let mediaURL: String?
     let fileName: String?
     let fileSize: Int?
+    let identityToken: String?
     
-    init(type: String, content: String? = nil, clientId: String, roomId: String? = nil, messageType: String? = nil, mediaURL: String? = nil, fileName: String? = nil, fileSize: Int? = nil) {
+    init(type: String, content: String? = nil, clientId: String, roomId: String? = nil, messageType: String? = nil, mediaURL: String? = nil, fileName: String? = nil, fileSize: Int? = nil, identityToken: String? = nil) {
         self.type = type
         self.content = content
         self.clientId = clientId
@@ -1498,6 +1513,7 @@ struct WebSocketMessage: Codable {
         self.mediaURL = mediaURL
         self.fileName = fileName
         self.fileSize = fileSize
+        self.identityToken = identityToken
     }
 }
 
@@ -0,0 +1,114 @@
+import { WebSocket } from 'ws';
+import { CloseCode } from '../shared/protocol.js';
+
+// How a message is treated when its recipient cannot keep up. Presence (typing
+// and presence updates) is dropped first, media chunks next; chat and control
+// messages are never dropped.
+export type MessageClass = 'chat' | 'media' | 'presence';
+
+// Buffer sizes are the socket's bufferedAmount, in bytes
+export interface BackpressureLimits {
+  presence: number;
+  media: number;
+  // Over this the socket is closed straight away, whatever it is being sent
+  maxBuffered: number;
+  // How long a socket may stay over the media limit before it is closed, in milliseconds
+  slowConsumerGrace: number;
+}
+
+export const DEFAULT_BACKPRESSURE_LIMITS: BackpressureLimits = {
+  presence: 64 * 1024, // 64 KB
+  media: 1024 * 1024, // 1 MB
+  maxBuffered: 8 * 1024 * 1024, // 8 MB
+  slowConsumerGrace: 15 * 1000 // 15 seconds
+};
+
+export interface BackpressureStats {
+  dropped: Record<Exclude<MessageClass, 'chat'>, number>;
+  slowConsumersDisconnected: number;
+}
+
+const PRESENCE_TYPES = ['typing-start', 'typing-stop', 'presence'];
+const MEDIA_TYPES = ['media_chunk', 'file-chunk'];
+
+export function classifyMessage(type: string): MessageClass {
+  if (PRESENCE_TYPES.includes(type)) return 'presence';
+  if (MEDIA_TYPES.includes(type)) return 'media';
+  return 'chat';
+}
+
+// The media or file transfer a message belongs to. `last` marks the message
+// that ends it.
+export interface Transfer {
+  id: string;
+  senderId: string;
+  last: boolean;
+}
+
+export function getTransfer(message: any): Transfer | undefined {
+  switch (message.type) {
+    case 'media_chunk':
+      return { id: message.mediaId, senderId: message.clientId, last: false };
+    case 'media_end':
+      return { id: message.mediaURL, senderId: message.clientId, last: true };
+    case 'file-chunk':
+    case 'file-complete':
+      return { id: message.transferId, senderId: message.clientId, last: message.type === 'file-complete' };
+  }
+  return undefined;
+}
+
+// Keeps one slow recipient from making the server buffer without bound: sends
+// are dropped by class as the socket's outbound buffer fills, and sockets that
+// stay backed up are closed with CloseCode.SLOW_CONSUMER.
+export class BackpressureGuard {
+  private limits: BackpressureLimits;
+  // When each socket went over the media limit
+  private backedUpSince = new WeakMap<WebSocket, number>();
+  private stats: BackpressureStats = {
+    dropped: { presence: 0, media: 0 },
+    slowConsumersDisconnected: 0
+  };
+
+  constructor(limits: BackpressureLimits = DEFAULT_BACKPRESSURE_LIMITS) {
+    this.limits = limits;
+  }
+
+  // Returns false if the message was dropped or the socket closed instead
+  send(ws: WebSocket, data: string | Buffer, messageClass: MessageClass): boolean {
+    const buffered = ws.bufferedAmount;
+    const now = Date.now();
+
+    if (buffered <= this.limits.media) {
+      this.backedUpSince.delete(ws);
+    } else if (!this.backedUpSince.has(ws)) {
+      this.backedUpSince.set(ws, now);
+    }
+
+    const since = this.backedUpSince.get(ws);
+    if (buffered > this.limits.maxBuffered || (since !== undefined && now - since > this.limits.slowConsumerGrace)) {
+      this.disconnect(ws);
+      return false;
+    }
+
+    if (messageClass !== 'chat' && buffered > this.limits[messageClass]) {
+      this.stats.dropped[messageClass]++;
+      return false;
+    }
+
+    ws.send(data, { binary: typeof data !== 'string' });
+    return true;
+  }
+
+  getStats(): BackpressureStats {
+    return { dropped: { ...this.stats.dropped }, slowConsumersDisconnected: this.stats.slowConsumersDisconnected };
+  }
+
+  // The close frame waits behind the buffered data, so the client still learns why
+  private disconnect(ws: WebSocket): void {
+    this.backedUpSince.delete(ws);
+    this.stats.slowConsumersDisconnected++;
+    console.warn(`Closing slow consumer with ${ws.bufferedAmount} bytes buffered`);
+    ws.close(CloseCode.SLOW_CONSUMER, 'Connection too slow to keep up with the room');
+  }
+}
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getRoomStorePath } from './roomStore.js';
+
+// Clients still pick their own IDs, but the server signs the ID each client is
+// admitted to a room under. Presenting the signature later proves the ID is
+// the client's own, so nobody else can take over a connected client's slot.
+// Unlike resume tokens, which live in one instance's memory, signatures verify
+// on every instance that shares the secret.
+export class ClientIdentitySigner {
+  private secret: Buffer;
+
+  constructor(secret?: string) {
+    this.secret = secret ? Buffer.from(secret) : crypto.randomBytes(32);
+  }
+
+  sign(roomId: string, clientId: string): string {
+    return crypto.createHmac('sha256', this.secret)
+      .update(`${roomId}\n${clientId}`)
+      .digest('base64url');
+  }
+
+  verify(roomId: string, clientId: string, token: unknown): boolean {
+    if (typeof token !== 'string') return false;
+
+    const expected = Buffer.from(this.sign(roomId, clientId));
+    const actual = Buffer.from(token);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+}
+
+// Rooms in a file store outlive the process, and so must the secret their
+// members' tokens are signed with. Creates the secret on first use.
+export function loadIdentitySecret(filePath: string): string {
+  if (fs.existsSync(filePath)) {
+    const stored = fs.readFileSync(filePath, 'utf8').trim();
+    if (stored) return stored;
+  }
+
+  const secret = crypto.randomBytes(32).toString('base64url');
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, secret, { mode: 0o600 });
+  return secret;
+}
+
+export function createClientIdentitySigner(): ClientIdentitySigner {
+  let secret = process.env.CLIENT_IDENTITY_SECRET;
+  if (!secret && (process.env.ROOM_STORE || 'memory') === 'file') {
+    const secretPath = path.join(path.dirname(getRoomStorePath()), 'identity-secret');
+    secret = loadIdentitySecret(secretPath);
+    console.log(`Using client identity secret from ${secretPath}`);
+  }
+  if (!process.env.CLIENT_IDENTITY_SECRET && (process.env.MESSAGE_BUS || 'memory') !== 'memory') {
+    console.warn('CLIENT_IDENTITY_SECRET is not set; identity tokens will only verify on this instance');
+  }
+  return new ClientIdentitySigner(secret);
+}
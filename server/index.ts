@@ -2,6 +2,7 @@ import express from 'express';
 import http from 'http';
 import cors from 'cors';
 import { setupRoutes } from './routes.js';
+import { RateLimiter, rateLimitRequests } from './rateLimit.js';
 
 const app = express();
 const server = http.createServer(app);
@@ -53,37 +54,21 @@ app.get('/', (req, res) => {
       createRoom: 'POST /api/create-room',
       joinRoom: 'POST /api/join-room',
       roomStatus: 'GET /api/room/:roomId/status',
+      roomCodeFormat: 'GET /api/room-code-format',
+      protocolSchema: 'GET /api/protocol-schema',
+      stats: 'GET /api/stats',
       websocket: '/ws'
     },
     environment: process.env.NODE_ENV || 'development'
   });
 });
 
-// Rate limiting middleware
-const requestCounts = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT = 100; // requests per minute
-const RATE_WINDOW = 60 * 1000; // 1 minute
-
-app.use((req: any, res: any, next: any) => {
-  const clientIp = req.ip || req.socket?.remoteAddress || 'unknown';
-  const now = Date.now();
-  
-  const clientData = requestCounts.get(clientIp);
-  if (!clientData || now > clientData.resetTime) {
-    requestCounts.set(clientIp, { count: 1, resetTime: now + RATE_WINDOW });
-    return next();
-  }
-  
-  if (clientData.count >= RATE_LIMIT) {
-    return res.status(429).json({ error: 'Rate limit exceeded' });
-  }
-  
-  clientData.count++;
-  next();
-});
+// Rate limiting middleware; the same limiter covers WebSocket connections and messages
+const rateLimiter = new RateLimiter();
+app.use(rateLimitRequests(rateLimiter));
 
 // Setup API routes and WebSocket
-setupRoutes(app, server);
+const { roomManager } = setupRoutes(app, server, rateLimiter);
 
 // Handle 404 for unknown API routes
 app.use('*', (req, res) => {
@@ -96,6 +81,9 @@ app.use('*', (req, res) => {
       createRoom: 'POST /api/create-room',
       joinRoom: 'POST /api/join-room',
       roomStatus: 'GET /api/room/:roomId/status',
+      roomCodeFormat: 'GET /api/room-code-format',
+      protocolSchema: 'GET /api/protocol-schema',
+      stats: 'GET /api/stats',
       uploadFile: 'POST /api/upload',
       downloadFile: 'GET /api/file/:fileId',
       websocket: 'WebSocket /ws'
@@ -111,19 +99,10 @@ server.listen(PORT, '0.0.0.0', () => {
   console.log(`🎯 API-only mode - No frontend serving`);
 });
 
-// Cleanup interval for rate limiting
-setInterval(() => {
-  const now = Date.now();
-  for (const [ip, data] of requestCounts.entries()) {
-    if (now > data.resetTime) {
-      requestCounts.delete(ip);
-    }
-  }
-}, 60000);
-
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  roomManager.close();
   server.close(() => {
     console.log('Process terminated');
   });
@@ -131,6 +110,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
+  roomManager.close();
   server.close(() => {
     console.log('Process terminated');
   });
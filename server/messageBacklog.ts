@@ -0,0 +1,126 @@
+// Recent chat messages kept for clients that join late or reconnect. Only the
+// client-encrypted envelope of each message is stored, never its content.
+export interface BacklogMessage {
+  seq: number;
+  messageId: string;
+  clientId: string;
+  envelope: string;
+  timestamp: number;
+  // Self-destruct time. Messages returned by since() carry the time they have left.
+  ttl?: number;
+}
+
+export interface BacklogLimits {
+  maxMessages: number;
+  // Total envelope size, in characters
+  maxSize: number;
+  maxAge: number;
+  maxEnvelopeSize: number;
+}
+
+export const DEFAULT_BACKLOG_LIMITS: BacklogLimits = {
+  maxMessages: 200,
+  maxSize: 1024 * 1024, // 1 MB
+  maxAge: 30 * 60 * 1000, // 30 minutes
+  maxEnvelopeSize: 16 * 1024 // 16 KB
+};
+
+interface BacklogEntry {
+  message: BacklogMessage;
+  storedAt: number;
+  expiresAt?: number;
+}
+
+// A bounded ring buffer: the oldest messages are dropped once any limit is hit
+export class MessageBacklog {
+  private entries: BacklogEntry[] = [];
+  private size = 0;
+  private nextSeq = 1;
+  private limits: BacklogLimits;
+
+  constructor(limits: Partial<BacklogLimits> = {}) {
+    this.limits = { ...DEFAULT_BACKLOG_LIMITS, ...limits };
+  }
+
+  // Returns the message's sequence number, or null if the envelope is too large to keep
+  append(messageId: string, clientId: string, envelope: string, timestamp: number, ttl?: number): number | null {
+    if (envelope.length > this.limits.maxEnvelopeSize) {
+      return null;
+    }
+
+    const seq = this.nextSeq++;
+    const now = Date.now();
+    this.entries.push({
+      message: { seq, messageId, clientId, envelope, timestamp, ...(ttl ? { ttl } : {}) },
+      storedAt: now,
+      ...(ttl ? { expiresAt: now + ttl } : {})
+    });
+    this.size += envelope.length;
+    this.prune();
+    return seq;
+  }
+
+  // Messages after the cursor, oldest first. A cursor from an older backlog
+  // (e.g. before a server restart) is ahead of this one, so everything is returned.
+  since(cursor?: unknown): BacklogMessage[] {
+    this.prune();
+
+    const after = typeof cursor === 'number' && cursor < this.nextSeq ? cursor : 0;
+    const now = Date.now();
+    return this.entries
+      .filter(entry => entry.message.seq > after)
+      .map(entry => entry.expiresAt ? { ...entry.message, ttl: entry.expiresAt - now } : entry.message);
+  }
+
+  // For edited messages. The message keeps its place and sequence number.
+  replace(messageId: string, envelope: string): void {
+    const entry = this.entries.find(existing => existing.message.messageId === messageId);
+    if (!entry) return;
+
+    if (envelope.length > this.limits.maxEnvelopeSize) {
+      this.remove(messageId);
+      return;
+    }
+
+    this.size += envelope.length - entry.message.envelope.length;
+    entry.message = { ...entry.message, envelope };
+    this.prune();
+  }
+
+  // For unsent messages
+  remove(messageId: string): void {
+    const index = this.entries.findIndex(entry => entry.message.messageId === messageId);
+    if (index === -1) return;
+
+    this.size -= this.entries[index].message.envelope.length;
+    this.entries.splice(index, 1);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.size = 0;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    const oldestAllowed = now - this.limits.maxAge;
+
+    // Self-destructing messages can expire anywhere in the buffer
+    if (this.entries.some(entry => entry.expiresAt !== undefined && entry.expiresAt <= now)) {
+      this.entries = this.entries.filter(entry => {
+        if (entry.expiresAt === undefined || entry.expiresAt > now) return true;
+        this.size -= entry.message.envelope.length;
+        return false;
+      });
+    }
+
+    while (this.entries.length > 0 && (
+      this.entries.length > this.limits.maxMessages ||
+      this.size > this.limits.maxSize ||
+      this.entries[0].storedAt < oldestAllowed
+    )) {
+      const entry = this.entries.shift()!;
+      this.size -= entry.message.envelope.length;
+    }
+  }
+}
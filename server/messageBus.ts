@@ -0,0 +1,328 @@
+import { EventEmitter } from 'events';
+import net from 'net';
+import crypto from 'crypto';
+import { RoomRecord } from './roomStore.js';
+
+// Events shared between server instances so that peers connected to different
+// replicas behind a load balancer can see each other
+export type BusEvent =
+  | { kind: 'broadcast'; roomId: string; message: any; excludeClientId?: string }
+  | { kind: 'direct'; roomId: string; to: string; message: any }
+  // Binary media chunk frame, base64 encoded so every bus can carry it
+  | { kind: 'media-frame'; roomId: string; frame: string; senderId: string }
+  | { kind: 'room-saved'; room: RoomRecord }
+  | { kind: 'room-updated'; room: RoomRecord }
+  | { kind: 'disconnect'; roomId: string; clientId: string; code: number; reason: string }
+  | { kind: 'pending-resolved'; roomId: string; clientId: string; admitted: boolean }
+  // The client proved its identity on the publishing instance, which now holds its slot
+  | { kind: 'hand-off'; roomId: string; clientId: string }
+  | { kind: 'client-joined'; roomId: string; clientId: string }
+  | { kind: 'client-left'; roomId: string; clientId: string };
+
+interface BusEnvelope {
+  origin: string;
+  event: BusEvent;
+}
+
+export type BusHandler = (event: BusEvent, origin: string) => void;
+
+export interface MessageBus {
+  readonly instanceId: string;
+  publish(event: BusEvent): void;
+  subscribe(handler: BusHandler): void;
+  close(): void;
+}
+
+// Delivers events between buses sharing the same hub within one process.
+// A single instance uses it as a no-op; several instances can share a hub in tests.
+export class InProcessMessageBus implements MessageBus {
+  readonly instanceId = crypto.randomUUID();
+  private static defaultHub = new EventEmitter();
+  private hub: EventEmitter;
+  private handlers: BusHandler[] = [];
+  private listener = (envelope: BusEnvelope) => this.deliver(envelope);
+
+  constructor(hub: EventEmitter = InProcessMessageBus.defaultHub) {
+    this.hub = hub;
+    this.hub.setMaxListeners(0);
+    this.hub.on('event', this.listener);
+  }
+
+  publish(event: BusEvent): void {
+    const envelope: BusEnvelope = { origin: this.instanceId, event };
+    // Deliver asynchronously, as a network bus would
+    setImmediate(() => this.hub.emit('event', envelope));
+  }
+
+  subscribe(handler: BusHandler): void {
+    this.handlers.push(handler);
+  }
+
+  close(): void {
+    this.hub.off('event', this.listener);
+    this.handlers = [];
+  }
+
+  private deliver(envelope: BusEnvelope): void {
+    if (envelope.origin === this.instanceId) return;
+
+    for (const handler of this.handlers) {
+      try {
+        handler(envelope.event, envelope.origin);
+      } catch (error) {
+        console.error('Error handling bus event:', error);
+      }
+    }
+  }
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+// Minimal incremental parser for RESP2 replies
+export class RespParser {
+  private buffer = Buffer.alloc(0);
+
+  push(data: Buffer): RespValue[] {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    const values: RespValue[] = [];
+
+    while (this.buffer.length > 0) {
+      const result = this.parse(0);
+      if (!result) break;
+      values.push(result.value);
+      this.buffer = this.buffer.subarray(result.offset);
+    }
+
+    return values;
+  }
+
+  private parse(offset: number): { value: RespValue; offset: number } | null {
+    const lineEnd = this.buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return null;
+
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, offset: next };
+
+      case '-':
+        return { value: new Error(line), offset: next };
+
+      case ':':
+        return { value: parseInt(line, 10), offset: next };
+
+      case '$': {
+        const length = parseInt(line, 10);
+        if (length === -1) return { value: null, offset: next };
+        if (this.buffer.length < next + length + 2) return null;
+        return {
+          value: this.buffer.toString('utf8', next, next + length),
+          offset: next + length + 2
+        };
+      }
+
+      case '*': {
+        const count = parseInt(line, 10);
+        if (count === -1) return { value: null, offset: next };
+
+        const items: RespValue[] = [];
+        let position = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(position);
+          if (!item) return null;
+          items.push(item.value);
+          position = item.offset;
+        }
+        return { value: items, offset: position };
+      }
+
+      default:
+        throw new Error(`Unexpected RESP type: ${type}`);
+    }
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  let command = `*${args.length}\r\n`;
+  for (const arg of args) {
+    command += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+  return command;
+}
+
+// A single RESP connection that reconnects with backoff and re-runs its setup
+// commands (AUTH, SELECT, SUBSCRIBE) every time it comes back
+class RespConnection {
+  private socket: net.Socket | null = null;
+  private parser = new RespParser();
+  private queue: string[] = [];
+  private connected = false;
+  private closed = false;
+  private reconnectDelay = 500;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private url: URL;
+  private setupCommands: string[][];
+  private onValue: (value: RespValue) => void;
+
+  constructor(url: URL, setupCommands: string[][], onValue: (value: RespValue) => void) {
+    this.url = url;
+    this.setupCommands = setupCommands;
+    this.onValue = onValue;
+    this.connect();
+  }
+
+  send(args: string[]): void {
+    const command = encodeCommand(args);
+    if (this.connected && this.socket) {
+      this.socket.write(command);
+    } else if (this.queue.length < 1000) {
+      this.queue.push(command);
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private connect(): void {
+    const socket = net.createConnection({
+      host: this.url.hostname,
+      port: parseInt(this.url.port || '6379', 10)
+    });
+    this.socket = socket;
+    this.parser = new RespParser();
+
+    socket.on('connect', () => {
+      this.connected = true;
+      this.reconnectDelay = 500;
+
+      for (const args of this.setupCommands) {
+        socket.write(encodeCommand(args));
+      }
+      for (const command of this.queue.splice(0)) {
+        socket.write(command);
+      }
+    });
+
+    socket.on('data', (data: Buffer) => {
+      try {
+        for (const value of this.parser.push(data)) {
+          if (value instanceof Error) {
+            console.error('Message bus error reply:', value.message);
+          } else {
+            this.onValue(value);
+          }
+        }
+      } catch (error) {
+        console.error('Error parsing message bus reply:', error);
+        socket.destroy();
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.error('Message bus connection error:', error.message);
+    });
+
+    socket.on('close', () => {
+      this.connected = false;
+      if (this.closed) return;
+
+      this.reconnectTimeout = setTimeout(() => this.connect(), this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, 30000);
+    });
+  }
+}
+
+// Pub/sub over the Redis wire protocol. Works against Redis, Valkey, KeyDB or any
+// local stand-in that implements SUBSCRIBE/PUBLISH.
+export class RedisMessageBus implements MessageBus {
+  readonly instanceId = crypto.randomUUID();
+  private publisher: RespConnection;
+  private subscriber: RespConnection;
+  private handlers: BusHandler[] = [];
+  private channel: string;
+
+  constructor(redisUrl: string, channel: string = 'silento:bus') {
+    const url = new URL(redisUrl);
+    this.channel = channel;
+    const setupCommands: string[][] = [];
+
+    if (url.password) {
+      setupCommands.push(url.username
+        ? ['AUTH', decodeURIComponent(url.username), decodeURIComponent(url.password)]
+        : ['AUTH', decodeURIComponent(url.password)]);
+    }
+
+    const db = url.pathname.replace('/', '');
+    if (db) {
+      setupCommands.push(['SELECT', db]);
+    }
+
+    this.publisher = new RespConnection(url, setupCommands, () => {});
+    this.subscriber = new RespConnection(
+      url,
+      [...setupCommands, ['SUBSCRIBE', this.channel]],
+      (value) => this.handleReply(value)
+    );
+  }
+
+  publish(event: BusEvent): void {
+    const envelope: BusEnvelope = { origin: this.instanceId, event };
+    this.publisher.send(['PUBLISH', this.channel, JSON.stringify(envelope)]);
+  }
+
+  subscribe(handler: BusHandler): void {
+    this.handlers.push(handler);
+  }
+
+  close(): void {
+    this.publisher.close();
+    this.subscriber.close();
+    this.handlers = [];
+  }
+
+  private handleReply(value: RespValue): void {
+    // Pushed messages arrive as ["message", channel, payload]
+    if (!Array.isArray(value) || value[0] !== 'message' || value[1] !== this.channel) {
+      return;
+    }
+
+    try {
+      const envelope: BusEnvelope = JSON.parse(value[2] as string);
+      if (envelope.origin === this.instanceId) return;
+
+      for (const handler of this.handlers) {
+        handler(envelope.event, envelope.origin);
+      }
+    } catch (error) {
+      console.error('Error handling bus message:', error);
+    }
+  }
+}
+
+export function createMessageBus(): MessageBus {
+  const busType = process.env.MESSAGE_BUS || 'memory';
+
+  switch (busType) {
+    case 'memory':
+      return new InProcessMessageBus();
+
+    case 'redis': {
+      const redisUrl = process.env.REDIS_URL || 'redis://127.0.0.1:6379';
+      console.log(`Using Redis message bus: ${new URL(redisUrl).host}`);
+      return new RedisMessageBus(redisUrl, process.env.MESSAGE_BUS_CHANNEL);
+    }
+
+    default:
+      throw new Error(`Unknown MESSAGE_BUS: ${busType}`);
+  }
+}
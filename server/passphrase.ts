@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+
+// Only this verifier is stored for passphrase-protected rooms, never the passphrase
+export interface PassphraseVerifier {
+  algorithm: 'scrypt';
+  salt: string;
+  hash: string;
+  N: number;
+  r: number;
+  p: number;
+}
+
+export const PASSPHRASE_MIN_LENGTH = 4;
+export const PASSPHRASE_MAX_LENGTH = 128;
+
+const KEY_LENGTH = 32;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+function scrypt(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase.normalize('NFC'), salt, KEY_LENGTH, params, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export function isValidPassphrase(passphrase: unknown): passphrase is string {
+  return typeof passphrase === 'string' &&
+    passphrase.length >= PASSPHRASE_MIN_LENGTH &&
+    passphrase.length <= PASSPHRASE_MAX_LENGTH;
+}
+
+export async function hashPassphrase(passphrase: string): Promise<PassphraseVerifier> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(passphrase, salt, SCRYPT_PARAMS);
+
+  return {
+    algorithm: 'scrypt',
+    salt: salt.toString('base64'),
+    hash: hash.toString('base64'),
+    ...SCRYPT_PARAMS
+  };
+}
+
+export async function verifyPassphrase(passphrase: unknown, verifier: PassphraseVerifier): Promise<boolean> {
+  if (typeof passphrase !== 'string' || passphrase.length > PASSPHRASE_MAX_LENGTH) {
+    return false;
+  }
+
+  const expected = Buffer.from(verifier.hash, 'base64');
+  const { N, r, p } = verifier;
+  const actual = await scrypt(passphrase, Buffer.from(verifier.salt, 'base64'), { N, r, p });
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,92 @@
+// Protocol versions and the capabilities negotiated in the init handshake.
+//
+// Version 1 is the protocol spoken before negotiation existed, e.g. by the iOS
+// app; an init without a protocolVersion is treated as version 1 and gets the
+// capabilities of that era. Newer clients list what they understand, and the
+// connection gets the capabilities both sides support. Message types that need
+// a capability are neither accepted from nor delivered to connections without it.
+
+import {
+  CAPABILITIES,
+  Capability,
+  ErrorCode,
+  MESSAGE_CAPABILITIES,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION
+} from '../shared/protocol.js';
+
+export { ErrorCode, MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from '../shared/protocol.js';
+
+// Capabilities that only make sense on top of another one
+const CAPABILITY_DEPENDENCIES: Partial<Record<Capability, Capability>> = {
+  backlog: 'chat',
+  receipts: 'chat',
+  'message-changes': 'chat',
+  reactions: 'chat',
+  'binary-media': 'media'
+};
+
+export class ProtocolError extends Error {
+  code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.code = code;
+  }
+}
+
+export interface NegotiatedProtocol {
+  version: number;
+  capabilities: ReadonlySet<Capability>;
+}
+
+export const LEGACY_PROTOCOL: NegotiatedProtocol = {
+  version: MIN_PROTOCOL_VERSION,
+  capabilities: new Set<Capability>(['chat', 'media', 'files', 'webrtc'])
+};
+
+// Clients newer than the server are downgraded to its version, and capabilities
+// the server does not know are dropped. Throws a ProtocolError for requests no
+// version of the server could serve.
+export function negotiateProtocol(version: unknown, capabilities: unknown): NegotiatedProtocol {
+  if (version === undefined) {
+    return LEGACY_PROTOCOL;
+  }
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < MIN_PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      ErrorCode.UNSUPPORTED_PROTOCOL_VERSION,
+      `Protocol version must be an integer of at least ${MIN_PROTOCOL_VERSION}`
+    );
+  }
+
+  if (!Array.isArray(capabilities) || capabilities.some(capability => typeof capability !== 'string')) {
+    throw new ProtocolError(ErrorCode.INVALID_CAPABILITIES, 'capabilities must be an array of strings');
+  }
+
+  const requested = new Set(capabilities.filter(isCapability));
+  const negotiated = new Set<Capability>();
+  for (const capability of requested) {
+    const dependency = CAPABILITY_DEPENDENCIES[capability];
+    if (!dependency || requested.has(dependency)) {
+      negotiated.add(capability);
+    }
+  }
+
+  return { version: Math.min(version, PROTOCOL_VERSION), capabilities: negotiated };
+}
+
+export function isCapability(value: unknown): value is Capability {
+  return CAPABILITIES.includes(value as Capability);
+}
+
+// The capability a message type needs, or undefined for core message types
+export function getRequiredCapability(type: string): Capability | undefined {
+  return MESSAGE_CAPABILITIES[type];
+}
+
+export function supportsMessage(protocol: NegotiatedProtocol, type: string): boolean {
+  const capability = getRequiredCapability(type);
+  return !capability || protocol.capabilities.has(capability);
+}
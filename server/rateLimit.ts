@@ -0,0 +1,227 @@
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+
+// A bucket holds up to `capacity` tokens and regains `refillPerSecond` of them
+// continuously; each request or message spends its cost.
+export interface BucketLimits {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimits {
+  // HTTP requests, per IP
+  http: BucketLimits;
+  // New WebSocket connections, per IP
+  connections: BucketLimits;
+  // Open WebSocket connections, per IP
+  maxSocketsPerIp: number;
+  // WebSocket message costs, charged to the sender's IP, the client and its room
+  messagesPerIp: BucketLimits;
+  messagesPerClient: BucketLimits;
+  messagesPerRoom: BucketLimits;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  http: { capacity: 100, refillPerSecond: 100 / 60 },
+  connections: { capacity: 20, refillPerSecond: 1 / 3 },
+  maxSocketsPerIp: 20,
+  messagesPerIp: { capacity: 4000, refillPerSecond: 40 },
+  messagesPerClient: { capacity: 2000, refillPerSecond: 20 },
+  messagesPerRoom: { capacity: 10000, refillPerSecond: 100 }
+};
+
+// Cheap, frequent messages cost little; media and file chunks carry up to 64 KB each
+const MESSAGE_COSTS: Record<string, number> = {
+  'typing-start': 1,
+  'typing-stop': 1,
+  'presence': 1,
+  'receipt': 1,
+  'ping': 1,
+  'media_chunk': 10,
+  'file-chunk': 10
+};
+export const DEFAULT_MESSAGE_COST = 5;
+
+// Charged for every WebSocket frame before it is parsed, so frames that never
+// parse still cost something. The rest of a message's cost is charged once its
+// type is known.
+export const FRAME_COST = 1;
+
+export function getMessageCost(type: string): number {
+  return MESSAGE_COSTS[type] ?? DEFAULT_MESSAGE_COST;
+}
+
+export interface RateLimitStats {
+  limited: { http: number; connections: number; messages: number };
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class TokenBuckets {
+  private limits: BucketLimits;
+  private buckets = new Map<string, Bucket>();
+
+  constructor(limits: BucketLimits) {
+    this.limits = limits;
+  }
+
+  // Milliseconds until the key can spend `cost`, or 0 if it can now
+  timeUntil(key: string, cost: number): number {
+    const tokens = this.refill(key).tokens;
+    if (tokens >= cost) return 0;
+    return Math.ceil((Math.min(cost, this.limits.capacity) - tokens) / this.limits.refillPerSecond * 1000);
+  }
+
+  spend(key: string, cost: number): void {
+    this.refill(key).tokens -= cost;
+  }
+
+  // Full buckets behave exactly like missing ones, so they can go
+  prune(): void {
+    for (const key of [...this.buckets.keys()]) {
+      if (this.refill(key).tokens >= this.limits.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private refill(key: string): Bucket {
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.limits.capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(this.limits.capacity, bucket.tokens + elapsed * this.limits.refillPerSecond);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
+
+// One place for every rate limit: HTTP requests, WebSocket connections and
+// WebSocket messages. Checks return how long to wait in milliseconds, 0 when
+// the request may go ahead.
+export class RateLimiter {
+  private limits: RateLimits;
+  private http: TokenBuckets;
+  private connections: TokenBuckets;
+  private messagesPerIp: TokenBuckets;
+  private messagesPerClient: TokenBuckets;
+  private messagesPerRoom: TokenBuckets;
+  private openSockets = new Map<string, number>();
+  private stats: RateLimitStats = { limited: { http: 0, connections: 0, messages: 0 } };
+  private cleanupInterval: NodeJS.Timeout;
+  private readonly CLEANUP_INTERVAL = 60 * 1000; // 1 minute
+
+  constructor(limits: RateLimits = DEFAULT_RATE_LIMITS) {
+    this.limits = limits;
+    this.http = new TokenBuckets(limits.http);
+    this.connections = new TokenBuckets(limits.connections);
+    this.messagesPerIp = new TokenBuckets(limits.messagesPerIp);
+    this.messagesPerClient = new TokenBuckets(limits.messagesPerClient);
+    this.messagesPerRoom = new TokenBuckets(limits.messagesPerRoom);
+
+    this.cleanupInterval = setInterval(() => {
+      for (const buckets of [this.http, this.connections, this.messagesPerIp, this.messagesPerClient, this.messagesPerRoom]) {
+        buckets.prune();
+      }
+    }, this.CLEANUP_INTERVAL);
+    this.cleanupInterval.unref();
+  }
+
+  checkRequest(ip: string): number {
+    const wait = this.http.timeUntil(ip, 1);
+    if (wait > 0) {
+      this.stats.limited.http++;
+      return wait;
+    }
+
+    this.http.spend(ip, 1);
+    return 0;
+  }
+
+  // Called before the WebSocket handshake completes. Until the socket is
+  // counted with openSocket, a burst can slip past the socket cap, but not
+  // past the connection bucket.
+  checkConnection(ip: string): number {
+    const wait = (this.openSockets.get(ip) ?? 0) >= this.limits.maxSocketsPerIp
+      // Sockets close at unknown times; asking again after a connection's worth of tokens is a fair guess
+      ? Math.ceil(1000 / this.limits.connections.refillPerSecond)
+      : this.connections.timeUntil(ip, 1);
+    if (wait > 0) {
+      this.stats.limited.connections++;
+      return wait;
+    }
+
+    this.connections.spend(ip, 1);
+    return 0;
+  }
+
+  openSocket(ip: string): void {
+    this.openSockets.set(ip, (this.openSockets.get(ip) ?? 0) + 1);
+  }
+
+  closeSocket(ip: string): void {
+    const count = (this.openSockets.get(ip) ?? 0) - 1;
+    if (count > 0) {
+      this.openSockets.set(ip, count);
+    } else {
+      this.openSockets.delete(ip);
+    }
+  }
+
+  // Clients that have not joined a room yet are only charged per IP. Nothing
+  // is spent unless every bucket can afford the cost.
+  checkMessage(cost: number, ip: string, roomId?: string | null, clientId?: string | null): number {
+    const charges: [TokenBuckets, string][] = [[this.messagesPerIp, ip]];
+    if (roomId) {
+      charges.push([this.messagesPerRoom, roomId]);
+      if (clientId) {
+        charges.push([this.messagesPerClient, `${roomId}\n${clientId}`]);
+      }
+    }
+
+    const wait = Math.max(...charges.map(([buckets, key]) => buckets.timeUntil(key, cost)));
+    if (wait > 0) {
+      this.stats.limited.messages++;
+      return wait;
+    }
+
+    for (const [buckets, key] of charges) {
+      buckets.spend(key, cost);
+    }
+    return 0;
+  }
+
+  getStats(): RateLimitStats {
+    return { limited: { ...this.stats.limited } };
+  }
+}
+
+// Without a trusted proxy configuration the socket's address is the only one
+// that cannot be spoofed
+export function getClientIp(req: IncomingMessage): string {
+  return req.socket.remoteAddress || 'unknown';
+}
+
+// Retry-After is in whole seconds
+export function toRetryAfter(wait: number): number {
+  return Math.max(1, Math.ceil(wait / 1000));
+}
+
+export function rateLimitRequests(limiter: RateLimiter) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const wait = limiter.checkRequest(getClientIp(req));
+    if (wait === 0) return next();
+
+    const retryAfter = toRetryAfter(wait);
+    res.set('Retry-After', `${retryAfter}`);
+    res.status(429).json({ error: 'Rate limit exceeded', code: 'RATE_LIMITED', retryAfter });
+  };
+}
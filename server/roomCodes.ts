@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+
+export type RoomCodeFormat = 'alphanumeric' | 'words';
+
+export interface RoomCodeConfig {
+  format: RoomCodeFormat;
+  // Alphanumeric codes
+  length: number;
+  alphabet: string;
+  // Word codes, e.g. "amber-falcon-42"
+  wordCount: number;
+  digits: number;
+}
+
+// Format description advertised to clients so they can validate input
+export interface RoomCodeFormatInfo {
+  format: RoomCodeFormat;
+  pattern: string;
+  example: string;
+  maxLength: number;
+  caseSensitive: boolean;
+}
+
+const DEFAULT_CONFIG: RoomCodeConfig = {
+  format: 'alphanumeric',
+  length: 6,
+  alphabet: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789',
+  wordCount: 2,
+  digits: 2
+};
+
+// Short, distinct words that are easy to spell out over the phone
+const ADJECTIVES = [
+  'amber', 'azure', 'bold', 'brave', 'bright', 'brisk', 'calm', 'clever',
+  'cobalt', 'coral', 'cosmic', 'crisp', 'daring', 'dusty', 'eager', 'early',
+  'fancy', 'fluffy', 'frosty', 'gentle', 'giant', 'golden', 'grand', 'happy',
+  'hidden', 'honest', 'humble', 'icy', 'jolly', 'keen', 'kind', 'lively',
+  'lucky', 'lunar', 'merry', 'mighty', 'misty', 'noble', 'olive', 'orange',
+  'plucky', 'polar', 'proud', 'purple', 'quick', 'quiet', 'rapid', 'rosy',
+  'royal', 'rusty', 'scarlet', 'shiny', 'silent', 'silver', 'sleepy', 'smooth',
+  'snowy', 'solar', 'sunny', 'swift', 'tidy', 'velvet', 'wild', 'witty'
+];
+
+const NOUNS = [
+  'badger', 'beacon', 'bison', 'canyon', 'castle', 'cedar', 'comet', 'condor',
+  'coyote', 'crane', 'dolphin', 'eagle', 'ember', 'falcon', 'fern', 'fjord',
+  'forest', 'fox', 'galaxy', 'garden', 'glacier', 'harbor', 'hawk', 'heron',
+  'island', 'jaguar', 'koala', 'lagoon', 'lantern', 'lemur', 'lion', 'lotus',
+  'maple', 'meadow', 'meteor', 'moose', 'nebula', 'orchid', 'otter', 'owl',
+  'panda', 'panther', 'pebble', 'pine', 'planet', 'puffin', 'raven', 'reef',
+  'river', 'robin', 'rocket', 'salmon', 'sparrow', 'summit', 'tiger', 'tulip',
+  'valley', 'violet', 'walrus', 'willow', 'wolf', 'yak', 'zebra', 'zephyr'
+];
+
+const escapeForCharClass = (chars: string) => chars.replace(/[\\\]^-]/g, '\\$&');
+
+export function loadRoomCodeConfig(): RoomCodeConfig {
+  const config: RoomCodeConfig = {
+    format: (process.env.ROOM_CODE_FORMAT as RoomCodeFormat) || DEFAULT_CONFIG.format,
+    length: parseInt(process.env.ROOM_CODE_LENGTH || `${DEFAULT_CONFIG.length}`, 10),
+    alphabet: process.env.ROOM_CODE_ALPHABET || DEFAULT_CONFIG.alphabet,
+    wordCount: parseInt(process.env.ROOM_CODE_WORDS || `${DEFAULT_CONFIG.wordCount}`, 10),
+    digits: parseInt(process.env.ROOM_CODE_DIGITS || `${DEFAULT_CONFIG.digits}`, 10)
+  };
+
+  if (config.format !== 'alphanumeric' && config.format !== 'words') {
+    throw new Error(`Unknown ROOM_CODE_FORMAT: ${config.format}`);
+  }
+  if (!(config.length >= 4 && config.length <= 32)) {
+    throw new Error('ROOM_CODE_LENGTH must be between 4 and 32');
+  }
+  if (new Set(config.alphabet).size !== config.alphabet.length || config.alphabet.length < 10) {
+    throw new Error('ROOM_CODE_ALPHABET must contain at least 10 unique characters');
+  }
+  if (!(config.wordCount >= 1 && config.wordCount <= 5) || !(config.digits >= 0 && config.digits <= 6)) {
+    throw new Error('ROOM_CODE_WORDS must be 1-5 and ROOM_CODE_DIGITS 0-6');
+  }
+
+  return config;
+}
+
+export class RoomCodeGenerator {
+  private config: RoomCodeConfig;
+  private readonly MAX_ATTEMPTS = 10;
+
+  constructor(config: Partial<RoomCodeConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // Generates a code for which isTaken returns false. Collisions are retried a
+  // bounded number of times rather than recursing until the code space runs out.
+  generateUnique(isTaken: (code: string) => boolean): string {
+    for (let attempt = 0; attempt < this.MAX_ATTEMPTS; attempt++) {
+      const code = this.generate();
+      if (!isTaken(code)) {
+        return code;
+      }
+    }
+
+    throw new Error('Unable to generate a unique room code');
+  }
+
+  generate(): string {
+    if (this.config.format === 'words') {
+      const words: string[] = [];
+      for (let i = 0; i < this.config.wordCount - 1; i++) {
+        words.push(ADJECTIVES[crypto.randomInt(ADJECTIVES.length)]);
+      }
+      words.push(NOUNS[crypto.randomInt(NOUNS.length)]);
+
+      if (this.config.digits > 0) {
+        const max = Math.pow(10, this.config.digits);
+        words.push(crypto.randomInt(max).toString().padStart(this.config.digits, '0'));
+      }
+      return words.join('-');
+    }
+
+    const { alphabet, length } = this.config;
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += alphabet[crypto.randomInt(alphabet.length)];
+    }
+    return result;
+  }
+
+  // Maps user input onto the canonical form of a code
+  normalize(code: string): string {
+    const trimmed = code.trim();
+    if (this.config.format === 'words') {
+      return trimmed.toLowerCase().replace(/[\s_]+/g, '-');
+    }
+    return this.isCaseSensitive() ? trimmed : trimmed.toUpperCase();
+  }
+
+  describe(): RoomCodeFormatInfo {
+    if (this.config.format === 'words') {
+      const { wordCount, digits } = this.config;
+      const longestWord = Math.max(...[...ADJECTIVES, ...NOUNS].map(word => word.length));
+      return {
+        format: 'words',
+        pattern: `^[a-z]+(-[a-z]+){${wordCount - 1}}${digits > 0 ? `-[0-9]{${digits}}` : ''}$`,
+        example: ['amber', 'bold', 'calm', 'quiet'].slice(0, wordCount - 1)
+          .concat('falcon', digits > 0 ? '42'.padStart(digits, '0').slice(-digits) : [])
+          .join('-'),
+        maxLength: wordCount * (longestWord + 1) + digits,
+        caseSensitive: false
+      };
+    }
+
+    const { alphabet, length } = this.config;
+    return {
+      format: 'alphanumeric',
+      pattern: `^[${escapeForCharClass(alphabet)}]{${length}}$`,
+      example: Array.from({ length }, (_, i) => alphabet[(i * 7) % alphabet.length]).join(''),
+      maxLength: length,
+      caseSensitive: this.isCaseSensitive()
+    };
+  }
+
+  private isCaseSensitive(): boolean {
+    const { alphabet } = this.config;
+    return alphabet !== alphabet.toUpperCase();
+  }
+}
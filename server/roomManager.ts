@@ -1,51 +1,208 @@
 import { WebSocket } from 'ws';
+import crypto from 'crypto';
+import { ContentType, MemoryRoomStore, RoomRecord, RoomSettings, RoomStore } from './roomStore.js';
+import { BusEvent, InProcessMessageBus, MessageBus } from './messageBus.js';
+import { RoomCodeFormatInfo, RoomCodeGenerator } from './roomCodes.js';
+import { DEFAULT_ROOM_SETTINGS, ROOM_SETTINGS_LIMITS, withDefaults } from './roomSettings.js';
+import { PassphraseVerifier, verifyPassphrase } from './passphrase.js';
+import { BacklogMessage, MessageBacklog } from './messageBacklog.js';
+import { NegotiatedProtocol, supportsMessage } from './protocol.js';
+import { CloseCode } from '../shared/protocol.js';
+import { decodeMediaChunkFrame } from '../shared/mediaFrame.js';
+import { BackpressureGuard, BackpressureStats, MessageClass, Transfer, classifyMessage, getTransfer } from './backpressure.js';
+import { ClientIdentitySigner } from './clientIdentity.js';
 
-export interface Room {
-  id: string;
+export { CloseCode };
+
+export interface RoomExpiry {
+  expiresAt: number;
+  // Which limit the room will hit first
+  reason: 'idle' | 'lifetime';
+}
+
+// A client waiting in a room's lobby. The WebSocket handler decides what
+// admitting or denying means for the connection.
+export interface PendingClient {
+  label: string;
+  expiresAt: number;
+  admit: () => void;
+  deny: (reason: string) => void;
+  timeout: NodeJS.Timeout;
+}
+
+// A client whose connection dropped. Its slot is held so it can resume;
+// release() gives the slot up and lets the room know the client left.
+export interface DetachedClient {
+  release: () => void;
+  timeout: NodeJS.Timeout;
+}
+
+// Messages that count as someone using the room. Typing, presence, receipts and
+// room events are relayed without pushing back its expiry.
+const ACTIVITY_TYPES = [
+  'message', 'message-edit', 'message-delete', 'reaction',
+  'media_start', 'media_chunk', 'media_end',
+  'file-start', 'file-offer', 'file-chunk', 'file-complete'
+];
+
+export interface RoomOptions {
+  passphrase?: PassphraseVerifier;
+  ownerId?: string;
+}
+
+export interface Room extends RoomRecord {
   clients: Map<string, WebSocket>;
-  createdAt: number;
-  lastActivity: number;
+  // Clients connected to other server instances, keyed by client ID
+  remoteClients: Map<string, string>;
+  // Clients on this instance waiting for the owner's approval; they receive no room traffic
+  pending: Map<string, PendingClient>;
+  // Clients on this instance that may come back with their resume token
+  detached: Map<string, DetachedClient>;
+  // Resume tokens issued by this instance, keyed by client ID
+  resumeTokens: Map<string, string>;
+  // Only filled when the room's backlog setting is on. Kept in memory by each instance.
+  backlog: MessageBacklog;
+  // Sender of each recent message relayed by this instance, oldest first. Only
+  // the client admitted under an ID can use it again, so the sender stays the author.
+  messageSenders: Map<string, string>;
 }
 
 export class RoomManager {
+  // Live rooms with connected clients; metadata is owned by the store
   private rooms = new Map<string, Room>();
-  private readonly ROOM_EXPIRY_TIME = 5 * 60 * 1000; // 5 minutes
+  private store: RoomStore;
+  private bus: MessageBus;
+  private roomCodes: RoomCodeGenerator;
+  private cleanupInterval: NodeJS.Timeout | null = null;
   private readonly CLEANUP_INTERVAL = 60 * 1000; // 1 minute
+  private readonly PENDING_TIMEOUT = 60 * 1000; // 1 minute
+  private readonly RESUME_GRACE_PERIOD = 30 * 1000; // 30 seconds
+  private readonly MAX_TRACKED_MESSAGES = 1000; // Per room
+  private readonly EXPIRY_WARNINGS = [60 * 1000, 10 * 1000]; // Remaining time, largest first
+  // Smallest warning threshold already announced to this instance's clients, per room
+  private expiryWarnings = new Map<string, number>();
+  // Next expiry warning or expiry of each live room
+  private expiryTimers = new Map<string, NodeJS.Timeout>();
+  // Negotiated in each connection's init; connections without one get every message type
+  private protocols = new WeakMap<WebSocket, NegotiatedProtocol>();
+  private outbound = new BackpressureGuard();
+  // Transfers that lost a chunk to backpressure, per recipient
+  private abortedTransfers = new WeakMap<WebSocket, Set<string>>();
+  private identities: ClientIdentitySigner;
 
-  constructor() {
+  constructor(
+    store: RoomStore = new MemoryRoomStore(),
+    bus: MessageBus = new InProcessMessageBus(),
+    roomCodes: RoomCodeGenerator = new RoomCodeGenerator(),
+    identities: ClientIdentitySigner = new ClientIdentitySigner()
+  ) {
+    this.store = store;
+    this.bus = bus;
+    this.roomCodes = roomCodes;
+    this.identities = identities;
+    this.bus.subscribe((event, origin) => this.handleBusEvent(event, origin));
     this.startCleanupInterval();
   }
 
-  createRoom(): string {
-    const roomId = this.generateRoomId();
+  createRoom(settings: RoomSettings = DEFAULT_ROOM_SETTINGS, options: RoomOptions = {}): string {
+    const roomId = this.roomCodes.generateUnique(code => this.store.has(code));
     const room: Room = {
       id: roomId,
       clients: new Map(),
+      pending: new Map(),
+      detached: new Map(),
+      resumeTokens: new Map(),
+      backlog: new MessageBacklog(),
+      messageSenders: new Map(),
+      remoteClients: new Map(),
       createdAt: Date.now(),
-      lastActivity: Date.now()
+      lastActivity: Date.now(),
+      settings: withDefaults(settings),
+      passphrase: options.passphrase,
+      ownerId: options.ownerId ?? null,
+      bannedClients: [],
+      // The creator's ID is theirs from the start, so nobody who learns it can join as the owner first
+      members: options.ownerId ? [options.ownerId] : [],
+      locked: false,
+      lifetimeExtension: 0
     };
 
     this.rooms.set(roomId, room);
+    this.persistRoom(room);
+    this.scheduleExpiry(roomId);
+    this.bus.publish({ kind: 'room-saved', room: this.toRecord(room) });
     console.log(`Room created: ${roomId}`);
     return roomId;
   }
 
+  // Canonical form of a user-entered room code, e.g. uppercased or dash-separated
+  normalizeRoomId(roomId: string): string {
+    return this.roomCodes.normalize(roomId);
+  }
+
+  getRoomCodeFormat(): RoomCodeFormatInfo {
+    return this.roomCodes.describe();
+  }
+
   getRoom(roomId: string): Room | undefined {
-    return this.rooms.get(roomId);
+    const room = this.rooms.get(roomId);
+    if (room) return room;
+
+    // Rooms restored from the store (e.g. after a restart) have no live clients yet
+    const record = this.store.get(roomId);
+    if (!record) return undefined;
+
+    const restoredRoom: Room = {
+      ...record,
+      settings: withDefaults(record.settings),
+      // Records written before owners existed
+      ownerId: record.ownerId ?? null,
+      bannedClients: record.bannedClients ?? [],
+      members: record.members ?? [],
+      locked: record.locked ?? false,
+      lifetimeExtension: record.lifetimeExtension ?? 0,
+      clients: new Map(),
+      pending: new Map(),
+      detached: new Map(),
+      resumeTokens: new Map(),
+      backlog: new MessageBacklog(),
+      messageSenders: new Map(),
+      remoteClients: new Map()
+    };
+    this.rooms.set(roomId, restoredRoom);
+    this.scheduleExpiry(roomId);
+    return restoredRoom;
   }
 
   addClientToRoom(roomId: string, clientId: string, ws?: WebSocket): string[] {
-    const room = this.rooms.get(roomId);
+    const room = this.getRoom(roomId);
     if (!room) {
       throw new Error('Room not found');
     }
 
+    if (!room.clients.has(clientId) && this.isRoomFull(roomId)) {
+      throw new Error('Room is full');
+    }
+
     if (ws) {
       room.clients.set(clientId, ws);
+      room.remoteClients.delete(clientId);
+      this.bus.publish({ kind: 'client-joined', roomId, clientId });
+
+      if (!room.members.includes(clientId)) {
+        room.members.push(clientId);
+        this.updateRoom(room);
+      }
+
+      // Rooms created without an owner (e.g. from the iOS app) belong to the first client to connect
+      if (!room.ownerId) {
+        room.ownerId = clientId;
+        this.updateRoom(room);
+      }
     }
-    room.lastActivity = Date.now();
+    this.touchRoom(room);
 
-    return Array.from(room.clients.keys());
+    return this.getRoomClients(roomId);
   }
 
   removeClientFromRoom(roomId: string, clientId: string): void {
@@ -53,30 +210,458 @@ export class RoomManager {
     if (!room) return;
 
     room.clients.delete(clientId);
-    room.lastActivity = Date.now();
+    this.bus.publish({ kind: 'client-left', roomId, clientId });
+    this.touchRoom(room);
 
-    // Remove room if empty
-    if (room.clients.size === 0) {
-      this.rooms.delete(roomId);
+    if (room.ownerId === clientId) {
+      const [nextOwnerId] = this.getRoomClients(roomId);
+      if (nextOwnerId) {
+        this.setOwner(roomId, nextOwnerId);
+        console.log(`Ownership of room ${roomId} passed to ${nextOwnerId}`);
+      }
+    }
+
+    // Remove room if empty across all instances
+    if (room.clients.size === 0 && room.detached.size === 0 && room.remoteClients.size === 0) {
+      this.deleteRoom(roomId);
       console.log(`Room ${roomId} removed - empty`);
     }
   }
 
+  // The token lets a client whose connection drops take its slot back
+  // without peers seeing it leave and rejoin
+  issueResumeToken(roomId: string, clientId: string): string {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    room.resumeTokens.set(clientId, token);
+    return token;
+  }
+
+  // Issued with every init and to the creator of a room; proves the client ID
+  // is the holder's on any instance
+  issueIdentityToken(roomId: string, clientId: string): string {
+    return this.identities.sign(roomId, clientId);
+  }
+
+  verifyIdentityToken(roomId: string, clientId: string, token: unknown): boolean {
+    return this.identities.verify(roomId, clientId, token);
+  }
+
+  // Whether the client ID has been used in the room, by a connection that
+  // holds it now or one that has left. Either way it belongs to that client.
+  isClientIdClaimed(roomId: string, clientId: string): boolean {
+    const room = this.getRoom(roomId);
+    return !!room && (room.members.includes(clientId) || this.isClientPresent(roomId, clientId));
+  }
+
+  // Whether a connection holds the client's slot, here or on another instance,
+  // including one that dropped and may still resume
+  isClientPresent(roomId: string, clientId: string): boolean {
+    const room = this.rooms.get(roomId);
+    return !!room && (room.clients.has(clientId) || room.detached.has(clientId) || room.remoteClients.has(clientId));
+  }
+
+  // False once a newer connection has taken over the client's slot
+  isClientConnection(roomId: string, clientId: string, ws: WebSocket): boolean {
+    return this.rooms.get(roomId)?.clients.get(clientId) === ws;
+  }
+
+  // Holds the slot of a client whose connection dropped for the grace period.
+  // Returns false if the client cannot resume, e.g. because it was removed by
+  // the owner, in which case it should leave straight away.
+  detachClient(roomId: string, clientId: string, onExpire: () => void): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.resumeTokens.has(clientId)) return false;
+
+    room.clients.delete(clientId);
+
+    const release = () => {
+      clearTimeout(detached.timeout);
+      room.detached.delete(clientId);
+      room.resumeTokens.delete(clientId);
+      onExpire();
+    };
+    const detached: DetachedClient = {
+      release,
+      timeout: setTimeout(release, this.RESUME_GRACE_PERIOD)
+    };
+    room.detached.set(clientId, detached);
+
+    console.log(`Client ${clientId} detached from room ${roomId}`);
+    return true;
+  }
+
+  // Moves a client onto a new connection if the token matches. A connection
+  // the server still thinks is open (common after a network switch) is closed.
+  resumeClient(roomId: string, clientId: string, token: unknown, ws: WebSocket): boolean {
+    const room = this.getRoom(roomId);
+    const expected = room?.resumeTokens.get(clientId);
+    if (!room || !expected || typeof token !== 'string') return false;
+
+    const expectedBuffer = Buffer.from(expected);
+    const tokenBuffer = Buffer.from(token);
+    if (tokenBuffer.length !== expectedBuffer.length || !crypto.timingSafeEqual(tokenBuffer, expectedBuffer)) {
+      return false;
+    }
+
+    this.attachClient(room, clientId, ws);
+    console.log(`Client ${clientId} resumed in room ${roomId}`);
+    return true;
+  }
+
+  // Moves a client that proved the ID is its own onto a new connection, e.g.
+  // from a reloaded page while the old connection has not closed yet. The slot
+  // may be held on another instance, which lets it go without peers seeing the
+  // client leave.
+  takeOverClient(roomId: string, clientId: string, ws: WebSocket): void {
+    const room = this.getRoom(roomId);
+    if (!room) return;
+
+    if (room.remoteClients.has(clientId)) {
+      room.remoteClients.delete(clientId);
+      this.bus.publish({ kind: 'hand-off', roomId, clientId });
+    }
+
+    this.attachClient(room, clientId, ws);
+    this.bus.publish({ kind: 'client-joined', roomId, clientId });
+    console.log(`Client ${clientId} took over its slot in room ${roomId}`);
+  }
+
+  private attachClient(room: Room, clientId: string, ws: WebSocket): void {
+    const detached = room.detached.get(clientId);
+    if (detached) {
+      clearTimeout(detached.timeout);
+      room.detached.delete(clientId);
+    }
+
+    const previous = room.clients.get(clientId);
+    room.clients.set(clientId, ws);
+    if (previous && previous !== ws) {
+      try {
+        previous.close(CloseCode.SESSION_RESUMED, 'Session resumed on another connection');
+      } catch (error) {
+        console.error(`Error closing previous connection for client ${clientId}:`, error);
+      }
+    }
+
+    this.touchRoom(room);
+  }
+
+  isRoomFull(roomId: string): boolean {
+    const room = this.getRoom(roomId);
+    return room ? this.getRoomClients(roomId).length >= room.settings.maxClients : false;
+  }
+
+  getMaxClients(roomId: string): number {
+    return this.getRoom(roomId)?.settings.maxClients ?? DEFAULT_ROOM_SETTINGS.maxClients;
+  }
+
+  // True once the room has been idle too long or outlived its maximum lifetime,
+  // even if the cleanup interval has not removed it yet
+  isRoomExpired(roomId: string): boolean {
+    const room = this.getRoom(roomId);
+    return room ? this.isExpired(room, Date.now()) : false;
+  }
+
+  getRoomExpiry(roomId: string): RoomExpiry | null {
+    const room = this.getRoom(roomId);
+    return room ? this.getExpiry(room) : null;
+  }
+
+  // Counts as activity, and pushes back the lifetime limit by one idle period
+  // when that is what the room would hit first. Rooms never live longer than
+  // the longest lifetime a creator could have chosen. Returns the new expiry,
+  // or null if the room cannot be extended any further.
+  extendRoom(roomId: string, clientId: string): RoomExpiry | null {
+    const room = this.getRoom(roomId);
+    if (!room) return null;
+
+    const { expiryTime, maxLifetime } = room.settings;
+    if (maxLifetime != null && this.getExpiry(room).reason === 'lifetime') {
+      const maxExtension = ROOM_SETTINGS_LIMITS.maxLifetime - maxLifetime;
+      const extension = Math.min(room.lifetimeExtension + expiryTime, maxExtension);
+      if (extension <= room.lifetimeExtension) return null;
+      room.lifetimeExtension = extension;
+    }
+
+    room.lastActivity = Date.now();
+    this.updateRoom(room);
+    this.expiryWarnings.delete(roomId);
+    this.scheduleExpiry(roomId);
+
+    const expiry = this.getExpiry(room);
+    this.broadcastToRoom(roomId, { type: 'room-extended', expiresAt: expiry.expiresAt, extendedBy: clientId });
+    console.log(`Room ${roomId} extended by ${clientId}`);
+    return expiry;
+  }
+
+  requiresPassphrase(roomId: string): boolean {
+    return !!this.getRoom(roomId)?.passphrase;
+  }
+
+  // Resolves to true for rooms without a passphrase
+  async checkPassphrase(roomId: string, passphrase: unknown): Promise<boolean> {
+    const verifier = this.getRoom(roomId)?.passphrase;
+    return verifier ? verifyPassphrase(passphrase, verifier) : true;
+  }
+
+  isOwner(roomId: string, clientId: string): boolean {
+    return this.getRoom(roomId)?.ownerId === clientId;
+  }
+
+  getOwner(roomId: string): string | null {
+    return this.getRoom(roomId)?.ownerId ?? null;
+  }
+
+  isBanned(roomId: string, clientId: string): boolean {
+    return this.getRoom(roomId)?.bannedClients.includes(clientId) ?? false;
+  }
+
+  isLocked(roomId: string): boolean {
+    return this.getRoom(roomId)?.locked ?? false;
+  }
+
+  // Makes clientId the owner and tells everyone in the room. Returns false if
+  // the client is not in the room.
+  setOwner(roomId: string, clientId: string): boolean {
+    const room = this.getRoom(roomId);
+    if (!room || !this.getRoomClients(roomId).includes(clientId)) return false;
+
+    room.ownerId = clientId;
+    this.updateRoom(room);
+    this.broadcastToRoom(roomId, { type: 'owner-changed', ownerId: clientId });
+    this.announcePendingClients(roomId);
+    return true;
+  }
+
+  // Holds a client in the lobby and asks the owner to admit it. Returns the
+  // time at which the request expires and the client is denied.
+  addPendingClient(
+    roomId: string,
+    clientId: string,
+    handlers: { label: string; admit: () => void; deny: (reason: string) => void }
+  ): number {
+    const room = this.getRoom(roomId);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+
+    this.removePendingClient(roomId, clientId);
+
+    const expiresAt = Date.now() + this.PENDING_TIMEOUT;
+    const timeout = setTimeout(() => {
+      const pending = room.pending.get(clientId);
+      if (!pending) return;
+
+      room.pending.delete(clientId);
+      pending.deny('Join request timed out');
+      this.notifyOwner(roomId, { type: 'join-request-resolved', clientId, outcome: 'timeout' });
+    }, this.PENDING_TIMEOUT);
+
+    room.pending.set(clientId, { ...handlers, expiresAt, timeout });
+    this.notifyOwner(roomId, { type: 'join-request', clientId, label: handlers.label, expiresAt });
+    return expiresAt;
+  }
+
+  // Called when a pending client disconnects before a decision
+  removePendingClient(roomId: string, clientId: string): void {
+    const room = this.rooms.get(roomId);
+    const pending = room?.pending.get(clientId);
+    if (!room || !pending) return;
+
+    clearTimeout(pending.timeout);
+    room.pending.delete(clientId);
+    this.notifyOwner(roomId, { type: 'join-request-resolved', clientId, outcome: 'cancelled' });
+  }
+
+  // Admits or denies a pending client, wherever it is connected
+  resolvePendingClient(roomId: string, clientId: string, admitted: boolean): void {
+    const room = this.rooms.get(roomId);
+    const pending = room?.pending.get(clientId);
+
+    if (!room || !pending) {
+      this.bus.publish({ kind: 'pending-resolved', roomId, clientId, admitted });
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    room.pending.delete(clientId);
+    if (admitted) {
+      pending.admit();
+    } else {
+      pending.deny('The room owner declined your request');
+    }
+    this.notifyOwner(roomId, { type: 'join-request-resolved', clientId, outcome: admitted ? 'admitted' : 'denied' });
+  }
+
+  // Re-sends this instance's outstanding join requests, e.g. to a new owner
+  announcePendingClients(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    for (const [clientId, pending] of room.pending.entries()) {
+      this.notifyOwner(roomId, { type: 'join-request', clientId, label: pending.label, expiresAt: pending.expiresAt });
+    }
+  }
+
+  setLocked(roomId: string, locked: boolean): void {
+    const room = this.getRoom(roomId);
+    if (!room) return;
+
+    room.locked = locked;
+    this.updateRoom(room);
+    this.broadcastToRoom(roomId, { type: 'room-locked', locked });
+  }
+
+  // Bans the client ID, not the person: a new tab or device picks a new one
+  banClient(roomId: string, clientId: string): void {
+    const room = this.getRoom(roomId);
+    if (!room || room.bannedClients.includes(clientId)) return;
+
+    room.bannedClients.push(clientId);
+    this.updateRoom(room);
+  }
+
+  // Closes a client's socket wherever it is connected. Its close handler takes
+  // care of leaving the room. Returns false if the client is not in the room.
+  disconnectClient(roomId: string, clientId: string, code: number, reason: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room) return false;
+
+    if (room.clients.has(clientId) || room.detached.has(clientId)) {
+      this.closeClient(room, clientId, code, reason);
+      return true;
+    }
+
+    if (room.remoteClients.has(clientId)) {
+      this.bus.publish({ kind: 'disconnect', roomId, clientId, code, reason });
+      return true;
+    }
+
+    return false;
+  }
+
+  isContentAllowed(roomId: string, contentType: ContentType): boolean {
+    const room = this.getRoom(roomId);
+    return room ? room.settings.allowedContent.includes(contentType) : false;
+  }
+
+  // Lets the server check that only the sender edits or unsends a message
+  recordMessageSender(roomId: string, messageId: string, clientId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    room.messageSenders.set(messageId, clientId);
+    if (room.messageSenders.size > this.MAX_TRACKED_MESSAGES) {
+      const [oldest] = room.messageSenders.keys();
+      room.messageSenders.delete(oldest);
+    }
+  }
+
+  // Undefined for messages this instance did not relay, or has forgotten
+  getMessageSender(roomId: string, messageId: string): string | undefined {
+    return this.rooms.get(roomId)?.messageSenders.get(messageId);
+  }
+
+  // Records the senders of messages relayed by other instances, so a client
+  // that reconnects to this instance can still change what it sent through
+  // another one.
+  private recordRemoteSender(roomId: string, message: any): void {
+    if (message.type === 'message') {
+      this.recordMessageSender(roomId, message.messageId, message.clientId);
+    } else if (message.type === 'media_start') {
+      this.recordMessageSender(roomId, message.mediaURL, message.clientId);
+    }
+  }
+
+  // Empty unless the room keeps a backlog
+  getBacklog(roomId: string, cursor?: unknown): BacklogMessage[] {
+    const room = this.getRoom(roomId);
+    return room?.settings.backlog ? room.backlog.since(cursor) : [];
+  }
+
   getRoomClients(roomId: string): string[] {
     const room = this.rooms.get(roomId);
-    return room ? Array.from(room.clients.keys()) : [];
+    return room ? [...room.clients.keys(), ...room.detached.keys(), ...room.remoteClients.keys()] : [];
   }
 
   broadcastToRoom(roomId: string, message: any, excludeClientId?: string): void {
+    this.deliverToRoom(roomId, this.recordInBacklog(roomId, message), excludeClientId);
+    if (ACTIVITY_TYPES.includes(message.type)) this.touchLiveRoom(roomId);
+    this.bus.publish({ kind: 'broadcast', roomId, message, excludeClientId });
+  }
+
+  // Relays a binary media chunk frame as-is to clients that negotiated
+  // binary-media, and as a JSON media_chunk to everyone else
+  broadcastMediaFrame(roomId: string, frame: Buffer, senderId: string): void {
+    this.deliverMediaFrame(roomId, frame, senderId);
+    this.touchLiveRoom(roomId);
+    this.bus.publish({ kind: 'media-frame', roomId, frame: frame.toString('base64'), senderId });
+  }
+
+  // Sends to a single client, wherever it is connected. Returns false if the
+  // client is not in the room.
+  sendToClient(roomId: string, clientId: string, message: any): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room) return false;
+
+    if (room.clients.has(clientId)) {
+      this.deliverToClient(room, clientId, message);
+      return true;
+    }
+
+    if (room.remoteClients.has(clientId)) {
+      this.bus.publish({ kind: 'direct', roomId, to: clientId, message });
+      return true;
+    }
+
+    return false;
+  }
+
+  close(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    for (const timer of this.expiryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.expiryTimers.clear();
+    this.bus.close();
+    this.store.close();
+  }
+
+  // How often recipients could not keep up, since the server started
+  getBackpressureStats(): BackpressureStats {
+    return this.outbound.getStats();
+  }
+
+  setConnectionProtocol(ws: WebSocket, protocol: NegotiatedProtocol): void {
+    this.protocols.set(ws, protocol);
+  }
+
+  // Clients are never sent message types they did not negotiate
+  private accepts(ws: WebSocket, message: any): boolean {
+    const protocol = this.protocols.get(ws);
+    return !protocol || supportsMessage(protocol, message.type);
+  }
+
+  private deliverToRoom(roomId: string, message: any, excludeClientId?: string): void {
     const room = this.rooms.get(roomId);
     if (!room) return;
 
     const messageStr = JSON.stringify(message);
-    
+    const messageClass = classifyMessage(message.type);
+    const transfer = getTransfer(message);
+
     for (const [clientId, ws] of room.clients.entries()) {
-      if (clientId !== excludeClientId && ws.readyState === WebSocket.OPEN) {
+      if (clientId !== excludeClientId && ws.readyState === WebSocket.OPEN && this.accepts(ws, message)) {
         try {
-          ws.send(messageStr);
+          this.sendOutbound(ws, messageStr, messageClass, transfer);
         } catch (error) {
           console.error(`Error sending message to client ${clientId}:`, error);
           // Remove disconnected client
@@ -84,57 +669,388 @@ export class RoomManager {
         }
       }
     }
+  }
 
-    room.lastActivity = Date.now();
+  private deliverMediaFrame(roomId: string, frame: Buffer, senderId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    const chunk = decodeMediaChunkFrame(frame);
+    if (!chunk) return;
+    const transfer: Transfer = { id: chunk.mediaId, senderId, last: false };
+
+    // Built at most once per frame, and only if someone needs it
+    let fallback: string | null = null;
+    const toJson = () => JSON.stringify({
+      type: 'media_chunk',
+      clientId: senderId,
+      mediaId: chunk.mediaId,
+      chunkIndex: chunk.chunkIndex,
+      totalChunks: chunk.totalChunks,
+      chunkData: Buffer.from(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength).toString('base64')
+    });
+
+    for (const [clientId, ws] of room.clients.entries()) {
+      if (clientId === senderId || ws.readyState !== WebSocket.OPEN) continue;
+
+      try {
+        if (this.protocols.get(ws)?.capabilities.has('binary-media')) {
+          this.sendOutbound(ws, frame, 'media', transfer);
+        } else if (this.accepts(ws, { type: 'media_chunk' })) {
+          fallback ??= toJson();
+          this.sendOutbound(ws, fallback, 'media', transfer);
+        }
+      } catch (error) {
+        console.error(`Error sending media frame to client ${clientId}:`, error);
+        room.clients.delete(clientId);
+      }
+    }
   }
 
-  private generateRoomId(): string {
-    // Generate a 6-character alphanumeric room ID
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let result = '';
-    for (let i = 0; i < 6; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+  private deliverToClient(room: Room, clientId: string, message: any): void {
+    const ws = room.clients.get(clientId);
+    if (!ws || ws.readyState !== WebSocket.OPEN || !this.accepts(ws, message)) return;
+
+    try {
+      this.sendOutbound(ws, JSON.stringify(message), classifyMessage(message.type), getTransfer(message));
+    } catch (error) {
+      console.error(`Error sending message to client ${clientId}:`, error);
+      room.clients.delete(clientId);
     }
-    
-    // Ensure uniqueness
-    if (this.rooms.has(result)) {
-      return this.generateRoomId();
+  }
+
+  // A chunk dropped for a slow recipient leaves a hole in its transfer, so the
+  // recipient is told to discard the transfer and gets none of the rest of it
+  private sendOutbound(ws: WebSocket, data: string | Buffer, messageClass: MessageClass, transfer?: Transfer): void {
+    const aborted = transfer && this.abortedTransfers.get(ws);
+    if (transfer && aborted?.has(transfer.id)) {
+      if (transfer.last) aborted.delete(transfer.id);
+      return;
     }
-    
-    return result;
+
+    // Only chunks are dropped; a closed socket needs no notice
+    if (this.outbound.send(ws, data, messageClass) || !transfer || ws.readyState !== WebSocket.OPEN) return;
+
+    if (aborted) {
+      aborted.add(transfer.id);
+    } else {
+      this.abortedTransfers.set(ws, new Set([transfer.id]));
+    }
+    this.outbound.send(ws, JSON.stringify({
+      type: 'transfer-aborted',
+      clientId: transfer.senderId,
+      transferId: transfer.id
+    }), 'chat');
   }
 
-  private startCleanupInterval(): void {
-    setInterval(() => {
-      const now = Date.now();
-      const expiredRooms: string[] = [];
+  // Stores the envelope of an encrypted chat message and stamps the relayed
+  // message with its sequence number, which clients use as their backlog cursor.
+  // Each instance numbers the messages it delivers. Edits replace the stored
+  // envelope and unsent messages are dropped.
+  private recordInBacklog(roomId: string, message: any): any {
+    const room = this.rooms.get(roomId);
+    if (!room?.settings.backlog) {
+      return message;
+    }
+
+    switch (message.type) {
+      case 'message': {
+        if (typeof message.envelope !== 'string') return message;
+        const seq = room.backlog.append(message.messageId, message.clientId, message.envelope, message.timestamp, message.ttl);
+        return seq === null ? message : { ...message, seq };
+      }
+
+      case 'message-edit':
+        if (typeof message.envelope === 'string') {
+          room.backlog.replace(message.messageId, message.envelope);
+        }
+        return message;
 
-      for (const [roomId, room] of this.rooms.entries()) {
-        if (now - room.lastActivity > this.ROOM_EXPIRY_TIME) {
-          expiredRooms.push(roomId);
+      case 'message-delete':
+        room.backlog.remove(message.messageId);
+        return message;
+
+      default:
+        return message;
+    }
+  }
+
+  private notifyOwner(roomId: string, message: any): void {
+    const ownerId = this.rooms.get(roomId)?.ownerId;
+    if (ownerId) {
+      this.sendToClient(roomId, ownerId, message);
+    }
+  }
+
+  // Clients closed by the server cannot resume
+  private closeClient(room: Room, clientId: string, code: number, reason: string): void {
+    room.resumeTokens.delete(clientId);
+    room.detached.get(clientId)?.release();
+
+    const ws = room.clients.get(clientId);
+    if (!ws) return;
+
+    try {
+      ws.close(code, reason);
+    } catch (error) {
+      console.error(`Error closing connection for client ${clientId}:`, error);
+    }
+  }
+
+  private handleBusEvent(event: BusEvent, origin: string): void {
+    switch (event.kind) {
+      case 'room-saved':
+        if (!this.store.has(event.room.id)) {
+          this.store.save(event.room);
+        }
+        break;
+
+      case 'room-updated': {
+        this.store.save(event.room);
+        const room = this.rooms.get(event.room.id);
+        if (room) {
+          room.settings = event.room.settings;
+          room.passphrase = event.room.passphrase;
+          room.ownerId = event.room.ownerId;
+          room.bannedClients = event.room.bannedClients;
+          room.members = event.room.members;
+          room.locked = event.room.locked;
+          room.lifetimeExtension = event.room.lifetimeExtension;
+          room.lastActivity = Math.max(room.lastActivity, event.room.lastActivity);
+          this.scheduleExpiry(room.id);
         }
+        break;
       }
 
-      for (const roomId of expiredRooms) {
-        const room = this.rooms.get(roomId);
+      case 'pending-resolved': {
+        const room = this.rooms.get(event.roomId);
+        if (room?.pending.has(event.clientId)) {
+          this.resolvePendingClient(event.roomId, event.clientId, event.admitted);
+        }
+        break;
+      }
+
+      case 'disconnect': {
+        const room = this.rooms.get(event.roomId);
         if (room) {
-          // Close all WebSocket connections
-          for (const ws of room.clients.values()) {
-            try {
-              ws.close();
-            } catch (error) {
-              console.error('Error closing WebSocket:', error);
-            }
-          }
-          this.rooms.delete(roomId);
-          console.log(`Room ${roomId} expired and removed`);
+          this.closeClient(room, event.clientId, event.code, event.reason);
         }
+        break;
+      }
+
+      // Another instance took over the slot; the old connection leaves quietly
+      case 'hand-off': {
+        const room = this.rooms.get(event.roomId);
+        if (!room) break;
+
+        const detached = room.detached.get(event.clientId);
+        if (detached) {
+          clearTimeout(detached.timeout);
+          room.detached.delete(event.clientId);
+        }
+        room.resumeTokens.delete(event.clientId);
+
+        const ws = room.clients.get(event.clientId);
+        room.clients.delete(event.clientId);
+        room.remoteClients.set(event.clientId, origin);
+        try {
+          ws?.close(CloseCode.SESSION_RESUMED, 'Session resumed on another connection');
+        } catch (error) {
+          console.error(`Error closing connection for client ${event.clientId}:`, error);
+        }
+        break;
+      }
+
+      case 'client-joined': {
+        const room = this.getRoom(event.roomId);
+        if (room && !room.clients.has(event.clientId)) {
+          room.remoteClients.set(event.clientId, origin);
+        }
+        break;
+      }
+
+      case 'client-left': {
+        const room = this.rooms.get(event.roomId);
+        if (room && room.remoteClients.get(event.clientId) === origin) {
+          room.remoteClients.delete(event.clientId);
+        }
+        break;
+      }
+
+      case 'broadcast':
+        this.recordRemoteSender(event.roomId, event.message);
+        this.deliverToRoom(event.roomId, this.recordInBacklog(event.roomId, event.message), event.excludeClientId);
+        if (ACTIVITY_TYPES.includes(event.message.type)) this.touchLiveRoom(event.roomId);
+        break;
+
+      case 'media-frame':
+        this.deliverMediaFrame(event.roomId, Buffer.from(event.frame, 'base64'), event.senderId);
+        this.touchLiveRoom(event.roomId);
+        break;
+
+      case 'direct': {
+        const room = this.rooms.get(event.roomId);
+        if (room) {
+          this.deliverToClient(room, event.to, event.message);
+        }
+        break;
+      }
+    }
+  }
+
+  private touchRoom(room: Room): void {
+    room.lastActivity = Date.now();
+    this.persistRoom(room);
+    this.scheduleExpiry(room.id);
+  }
+
+  private touchLiveRoom(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      this.touchRoom(room);
+    }
+  }
+
+  // Persists a change to room state and shares it with the other instances
+  private updateRoom(room: Room): void {
+    this.persistRoom(room);
+    this.bus.publish({ kind: 'room-updated', room: this.toRecord(room) });
+  }
+
+  private persistRoom(room: Room): void {
+    this.store.save(this.toRecord(room));
+  }
+
+  private toRecord(room: Room): RoomRecord {
+    return {
+      id: room.id,
+      createdAt: room.createdAt,
+      lastActivity: room.lastActivity,
+      settings: room.settings,
+      passphrase: room.passphrase,
+      ownerId: room.ownerId,
+      bannedClients: room.bannedClients,
+      members: room.members,
+      locked: room.locked,
+      lifetimeExtension: room.lifetimeExtension
+    };
+  }
+
+  private getExpiry(record: RoomRecord): RoomExpiry {
+    const { expiryTime, maxLifetime } = record.settings;
+    const idleExpiresAt = record.lastActivity + expiryTime;
+    if (maxLifetime == null) {
+      return { expiresAt: idleExpiresAt, reason: 'idle' };
+    }
+
+    // Records written before rooms could be extended have no extension
+    const lifetimeExpiresAt = record.createdAt + maxLifetime + (record.lifetimeExtension ?? 0);
+    return lifetimeExpiresAt < idleExpiresAt
+      ? { expiresAt: lifetimeExpiresAt, reason: 'lifetime' }
+      : { expiresAt: idleExpiresAt, reason: 'idle' };
+  }
+
+  private isExpired(record: RoomRecord, now: number): boolean {
+    return now > this.getExpiry(record).expiresAt;
+  }
+
+  // Warns this instance's clients as the room nears expiry. Each instance warns
+  // only its own clients, so the warnings are delivered locally and do not count
+  // as activity. If the room gained time since the last warning (a message was
+  // sent, or it was extended elsewhere), the warning is withdrawn.
+  private checkExpiryWarning(roomId: string, expiry: RoomExpiry, now: number): void {
+    const remaining = expiry.expiresAt - now;
+    const threshold = this.EXPIRY_WARNINGS.filter(limit => remaining <= limit).pop();
+    const warned = this.expiryWarnings.get(roomId);
+
+    if (threshold !== undefined && (warned === undefined || threshold < warned)) {
+      this.expiryWarnings.set(roomId, threshold);
+      this.deliverToRoom(roomId, { type: 'room-expiring', remaining, ...expiry });
+    } else if (threshold === undefined && warned !== undefined) {
+      this.expiryWarnings.delete(roomId);
+      this.deliverToRoom(roomId, { type: 'room-extended', expiresAt: expiry.expiresAt });
+    }
+  }
+
+  // Checks a live room's expiry whenever its deadlines move, and then again at
+  // the next one: the next warning not yet given, or the expiry itself
+  private scheduleExpiry(roomId: string): void {
+    clearTimeout(this.expiryTimers.get(roomId));
+    this.expiryTimers.delete(roomId);
+
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    const now = Date.now();
+    const expiry = this.getExpiry(room);
+    if (now > expiry.expiresAt) {
+      this.expireRoom(roomId);
+      return;
+    }
+
+    this.checkExpiryWarning(roomId, expiry, now);
+    const warned = this.expiryWarnings.get(roomId) ?? Infinity;
+    const nextWarning = this.EXPIRY_WARNINGS.find(limit => limit < warned);
+    const deadline = nextWarning !== undefined ? expiry.expiresAt - nextWarning : expiry.expiresAt + 1;
+    this.expiryTimers.set(roomId, setTimeout(() => this.scheduleExpiry(roomId), Math.max(0, deadline - now)));
+  }
+
+  private expireRoom(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      // Close all WebSocket connections
+      for (const ws of room.clients.values()) {
+        try {
+          ws.close(CloseCode.ROOM_EXPIRED, 'Room expired');
+        } catch (error) {
+          console.error('Error closing WebSocket:', error);
+        }
+      }
+    }
+    this.deleteRoom(roomId);
+    console.log(`Room ${roomId} expired and removed`);
+  }
+
+  private deleteRoom(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      for (const pending of room.pending.values()) {
+        clearTimeout(pending.timeout);
+        pending.deny('Room closed');
+      }
+      room.pending.clear();
+
+      for (const detached of room.detached.values()) {
+        clearTimeout(detached.timeout);
+      }
+      room.detached.clear();
+      room.backlog.clear();
+    }
+
+    this.rooms.delete(roomId);
+    this.expiryWarnings.delete(roomId);
+    clearTimeout(this.expiryTimers.get(roomId));
+    this.expiryTimers.delete(roomId);
+    this.store.delete(roomId);
+  }
+
+  // Live rooms expire on their own timers; this catches restored rooms nobody
+  // rejoined, and rooms created on other instances
+  private startCleanupInterval(): void {
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      const expiredRooms = this.store.list()
+        .filter(record => !this.rooms.has(record.id) && this.isExpired(record, now))
+        .map(record => record.id);
+
+      for (const roomId of expiredRooms) {
+        this.expireRoom(roomId);
       }
     }, this.CLEANUP_INTERVAL);
   }
 
   getRoomCount(): number {
-    return this.rooms.size;
+    return this.store.list().length;
   }
 
   getTotalClients(): number {
@@ -0,0 +1,126 @@
+import { ContentType, RoomSettings } from './roomStore.js';
+
+export const CONTENT_TYPES: ContentType[] = ['text', 'image', 'video', 'audio', 'file'];
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  maxClients: 20,
+  expiryTime: 5 * 60 * 1000, // 5 minutes
+  maxLifetime: null,
+  allowedContent: CONTENT_TYPES,
+  lobby: false,
+  backlog: false,
+  messageTtl: null
+};
+
+export const ROOM_SETTINGS_LIMITS = {
+  minClients: 2,
+  maxClients: 20,
+  minExpiryTime: 60 * 1000, // 1 minute
+  maxExpiryTime: 24 * 60 * 60 * 1000, // 24 hours
+  minLifetime: 60 * 1000, // 1 minute
+  maxLifetime: 24 * 60 * 60 * 1000, // 24 hours
+  minMessageTtl: 5 * 1000, // 5 seconds
+  maxMessageTtl: 24 * 60 * 60 * 1000 // 24 hours
+};
+
+export class RoomSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoomSettingsError';
+  }
+}
+
+function parseInteger(value: unknown, name: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new RoomSettingsError(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+// Validates settings requested by a room creator. Missing fields fall back to the defaults.
+export function parseRoomSettings(input: any): RoomSettings {
+  if (input === undefined || input === null) {
+    return withDefaults({});
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new RoomSettingsError('Room settings must be an object');
+  }
+
+  const settings: Partial<RoomSettings> = {};
+  const limits = ROOM_SETTINGS_LIMITS;
+
+  if (input.maxClients !== undefined) {
+    settings.maxClients = parseInteger(input.maxClients, 'maxClients', limits.minClients, limits.maxClients);
+  }
+
+  if (input.expiryTime !== undefined) {
+    settings.expiryTime = parseInteger(input.expiryTime, 'expiryTime', limits.minExpiryTime, limits.maxExpiryTime);
+  }
+
+  if (input.maxLifetime !== undefined) {
+    settings.maxLifetime = input.maxLifetime === null
+      ? null
+      : parseInteger(input.maxLifetime, 'maxLifetime', limits.minLifetime, limits.maxLifetime);
+  }
+
+  if (input.allowedContent !== undefined) {
+    if (!Array.isArray(input.allowedContent) || input.allowedContent.length === 0) {
+      throw new RoomSettingsError('allowedContent must be a non-empty array');
+    }
+    for (const type of input.allowedContent) {
+      if (!CONTENT_TYPES.includes(type)) {
+        throw new RoomSettingsError(`Unknown content type: ${type}`);
+      }
+    }
+    settings.allowedContent = Array.from(new Set<ContentType>(input.allowedContent));
+  }
+
+  if (input.lobby !== undefined) {
+    if (typeof input.lobby !== 'boolean') {
+      throw new RoomSettingsError('lobby must be a boolean');
+    }
+    settings.lobby = input.lobby;
+  }
+
+  if (input.backlog !== undefined) {
+    if (typeof input.backlog !== 'boolean') {
+      throw new RoomSettingsError('backlog must be a boolean');
+    }
+    settings.backlog = input.backlog;
+  }
+
+  if (input.messageTtl !== undefined) {
+    settings.messageTtl = input.messageTtl === null
+      ? null
+      : parseInteger(input.messageTtl, 'messageTtl', limits.minMessageTtl, limits.maxMessageTtl);
+  }
+
+  return withDefaults(settings);
+}
+
+// Fills in settings missing from records written by older versions
+export function withDefaults(settings: Partial<RoomSettings>): RoomSettings {
+  return {
+    ...DEFAULT_ROOM_SETTINGS,
+    ...settings,
+    allowedContent: [...(settings.allowedContent ?? DEFAULT_ROOM_SETTINGS.allowedContent)]
+  };
+}
+
+// A sender's self-destruct time, or undefined if it is missing or out of range
+export function parseMessageTtl(ttl: unknown): number | undefined {
+  const limits = ROOM_SETTINGS_LIMITS;
+  return typeof ttl === 'number' && Number.isInteger(ttl) && ttl >= limits.minMessageTtl && ttl <= limits.maxMessageTtl
+    ? ttl
+    : undefined;
+}
+
+// Maps a message type or MIME type (as sent in media_start) onto a content type
+export function getContentType(type?: string): ContentType {
+  if (!type || type === 'text') return 'text';
+  if (CONTENT_TYPES.includes(type as ContentType)) return type as ContentType;
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('audio/')) return 'audio';
+  return 'file';
+}
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import { PassphraseVerifier } from './passphrase.js';
+import type { RoomSettings } from '../shared/protocol.js';
+
+export type { ContentType, RoomSettings } from '../shared/protocol.js';
+
+// Persistable room metadata - live connections are never stored
+export interface RoomRecord {
+  id: string;
+  createdAt: number;
+  lastActivity: number;
+  settings: RoomSettings;
+  passphrase?: PassphraseVerifier;
+  ownerId: string | null;
+  bannedClients: string[];
+  // Every client ID admitted to the room. Coming back under one takes its identity token.
+  members: string[];
+  locked: boolean;
+  // Time added to maxLifetime by extend-room requests, in milliseconds
+  lifetimeExtension: number;
+}
+
+export interface RoomStore {
+  get(roomId: string): RoomRecord | undefined;
+  has(roomId: string): boolean;
+  save(room: RoomRecord): void;
+  delete(roomId: string): void;
+  list(): RoomRecord[];
+  close(): void;
+}
+
+export class MemoryRoomStore implements RoomStore {
+  protected rooms = new Map<string, RoomRecord>();
+
+  get(roomId: string): RoomRecord | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  has(roomId: string): boolean {
+    return this.rooms.has(roomId);
+  }
+
+  save(room: RoomRecord): void {
+    this.rooms.set(room.id, {
+      ...room,
+      settings: { ...room.settings, allowedContent: [...room.settings.allowedContent] },
+      bannedClients: [...room.bannedClients],
+      members: [...room.members]
+    });
+  }
+
+  delete(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  list(): RoomRecord[] {
+    return Array.from(this.rooms.values());
+  }
+
+  close(): void {
+    this.rooms.clear();
+  }
+}
+
+// Keeps rooms in memory and mirrors them to a JSON file so they survive restarts.
+// Writes are debounced since lastActivity changes on every relayed message.
+export class FileRoomStore extends MemoryRoomStore {
+  private readonly filePath: string;
+  private readonly FLUSH_DELAY = 1000; // 1 second
+  private flushTimeout: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    this.load();
+  }
+
+  save(room: RoomRecord): void {
+    super.save(room);
+    this.scheduleFlush();
+  }
+
+  delete(roomId: string): void {
+    super.delete(roomId);
+    this.scheduleFlush();
+  }
+
+  close(): void {
+    this.flush();
+  }
+
+  flush(): void {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ rooms: this.list() }, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`Error writing room store ${this.filePath}:`, error);
+    }
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const room of data.rooms || []) {
+        if (typeof room?.id === 'string' && room.settings) {
+          this.rooms.set(room.id, room);
+        }
+      }
+      console.log(`Loaded ${this.rooms.size} room(s) from ${this.filePath}`);
+    } catch (error) {
+      console.error(`Error reading room store ${this.filePath}:`, error);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimeout) return;
+
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = null;
+      this.flush();
+    }, this.FLUSH_DELAY);
+  }
+}
+
+export function getRoomStorePath(): string {
+  return process.env.ROOM_STORE_PATH || path.resolve(process.cwd(), 'data', 'rooms.json');
+}
+
+export function createRoomStore(): RoomStore {
+  const storeType = process.env.ROOM_STORE || 'memory';
+
+  switch (storeType) {
+    case 'memory':
+      return new MemoryRoomStore();
+
+    case 'file': {
+      const filePath = getRoomStorePath();
+      console.log(`Using file room store: ${filePath}`);
+      return new FileRoomStore(filePath);
+    }
+
+    default:
+      throw new Error(`Unknown ROOM_STORE: ${storeType}`);
+  }
+}
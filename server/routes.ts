@@ -5,9 +5,22 @@ import multer from 'multer';
 import path from 'path';
 import crypto from 'crypto';
 import { RoomManager } from './roomManager.js';
+import { createRoomStore } from './roomStore.js';
+import { createMessageBus } from './messageBus.js';
+import { loadRoomCodeConfig, RoomCodeGenerator } from './roomCodes.js';
+import { createClientIdentitySigner } from './clientIdentity.js';
+import { parseRoomSettings, RoomSettingsError } from './roomSettings.js';
+import { hashPassphrase, isValidPassphrase, PASSPHRASE_MAX_LENGTH, PASSPHRASE_MIN_LENGTH } from './passphrase.js';
 import { setupWebSocketHandler } from './websocketHandler.js';
+import { getClientIp, RateLimiter, toRetryAfter } from './rateLimit.js';
+import { buildProtocolJsonSchema } from '../shared/protocol.js';
 
-const roomManager = new RoomManager();
+const roomManager = new RoomManager(
+  createRoomStore(),
+  createMessageBus(),
+  new RoomCodeGenerator(loadRoomCodeConfig()),
+  createClientIdentitySigner()
+);
 
 // Configure multer for file uploads
 const storage = multer.memoryStorage();
@@ -56,7 +69,7 @@ setInterval(() => {
   }
 }, 60 * 60 * 1000);
 
-export function setupRoutes(app: Express, httpServer: HttpServer) {
+export function setupRoutes(app: Express, httpServer: HttpServer, rateLimiter: RateLimiter) {
   // File upload endpoint
   app.post('/api/upload', upload.single('file'), (req: any, res: any) => {
     try {
@@ -122,31 +135,97 @@ export function setupRoutes(app: Express, httpServer: HttpServer) {
   });
 
   // REST API Routes
-  app.post('/api/create-room', (req, res) => {
+  // Lets clients validate room codes before asking the server about them
+  app.get('/api/room-code-format', (req, res) => {
+    res.json(roomManager.getRoomCodeFormat());
+  });
+
+  // The WebSocket protocol as JSON Schema, for generating clients in other languages
+  app.get('/api/protocol-schema', (req, res) => {
+    res.json(buildProtocolJsonSchema());
+  });
+
+  app.post('/api/create-room', async (req: any, res: any) => {
     try {
-      const roomId = roomManager.createRoom();
-      res.json({ roomId });
+      const { passphrase, clientId, ...requestedSettings } = req.body || {};
+      const settings = parseRoomSettings(requestedSettings);
+
+      if (clientId !== undefined && typeof clientId !== 'string') {
+        return res.status(400).json({ error: 'Invalid client ID format' });
+      }
+
+      if (passphrase !== undefined && passphrase !== '' && !isValidPassphrase(passphrase)) {
+        return res.status(400).json({
+          error: `Passphrase must be ${PASSPHRASE_MIN_LENGTH}-${PASSPHRASE_MAX_LENGTH} characters`,
+          code: 'INVALID_PASSPHRASE'
+        });
+      }
+
+      // Backlog envelopes are keyed on the passphrase; without one anyone with the room code could open them
+      if (settings.backlog && !passphrase) {
+        return res.status(400).json({ error: 'A backlog needs a passphrase', code: 'INVALID_SETTINGS' });
+      }
+
+      const verifier = passphrase ? await hashPassphrase(passphrase) : undefined;
+      // The creator owns the room; without a client ID the first client to connect does
+      const roomId = roomManager.createRoom(settings, { passphrase: verifier, ownerId: clientId });
+      res.json({
+        roomId,
+        settings,
+        passphraseRequired: !!verifier,
+        ...(clientId ? { identityToken: roomManager.issueIdentityToken(roomId, clientId) } : {})
+      });
     } catch (error) {
+      if (error instanceof RoomSettingsError) {
+        return res.status(400).json({ error: error.message, code: 'INVALID_SETTINGS' });
+      }
       console.error('Error creating room:', error);
+      if (error instanceof Error && error.message === 'Unable to generate a unique room code') {
+        return res.status(503).json({ error: 'No room codes available, try again later', code: 'ROOM_CODES_EXHAUSTED' });
+      }
       res.status(500).json({ error: 'Failed to create room' });
     }
   });
 
-  app.post('/api/join-room', (req: any, res: any) => {
+  app.post('/api/join-room', async (req: any, res: any) => {
     try {
-      const { roomId, clientId } = req.body;
+      const { clientId, passphrase } = req.body;
       
-      if (!roomId || !clientId) {
+      if (!req.body.roomId || !clientId) {
         return res.status(400).json({ error: 'Room ID and client ID are required' });
       }
 
-      if (typeof roomId !== 'string' || typeof clientId !== 'string') {
+      if (typeof req.body.roomId !== 'string' || typeof clientId !== 'string') {
         return res.status(400).json({ error: 'Invalid room ID or client ID format' });
       }
 
+      const roomId = roomManager.normalizeRoomId(req.body.roomId);
+
       const room = roomManager.getRoom(roomId);
-      if (!room) {
-        return res.status(404).json({ error: 'Room not found' });
+      // Expired rooms are treated as gone even before the cleanup interval removes them
+      if (!room || roomManager.isRoomExpired(room.id)) {
+        return res.status(404).json({ error: 'Room not found', code: 'ROOM_NOT_FOUND' });
+      }
+
+      if (roomManager.requiresPassphrase(roomId)) {
+        if (!passphrase) {
+          return res.status(401).json({ error: 'Passphrase required', code: 'PASSPHRASE_REQUIRED' });
+        }
+        if (!await roomManager.checkPassphrase(roomId, passphrase)) {
+          return res.status(403).json({ error: 'Incorrect passphrase', code: 'INVALID_PASSPHRASE' });
+        }
+      }
+
+      if (roomManager.isBanned(roomId, clientId)) {
+        return res.status(403).json({ error: 'You have been banned from this room', code: 'BANNED' });
+      }
+
+      if (!room.clients.has(clientId) && roomManager.isLocked(roomId)) {
+        return res.status(423).json({ error: 'Room is locked', code: 'ROOM_LOCKED' });
+      }
+
+      if (!room.clients.has(clientId) && roomManager.isRoomFull(roomId)) {
+        return res.status(409).json({ error: 'Room is full', code: 'ROOM_FULL' });
       }
 
       const peers = roomManager.addClientToRoom(roomId, clientId);
@@ -159,18 +238,23 @@ export function setupRoutes(app: Express, httpServer: HttpServer) {
 
   app.get('/api/room/:roomId/status', (req: any, res: any) => {
     try {
-      const { roomId } = req.params;
+      const roomId = roomManager.normalizeRoomId(req.params.roomId);
       const room = roomManager.getRoom(roomId);
       
-      if (!room) {
-        return res.status(404).json({ error: 'Room not found' });
+      if (!room || roomManager.isRoomExpired(room.id)) {
+        return res.status(404).json({ error: 'Room not found', code: 'ROOM_NOT_FOUND' });
       }
 
       res.json({
         roomId,
-        peerCount: room.clients.size,
-        peers: Array.from(room.clients.keys()),
-        createdAt: room.createdAt
+        peerCount: roomManager.getRoomClients(roomId).length,
+        maxPeers: roomManager.getMaxClients(roomId),
+        isFull: roomManager.isRoomFull(roomId),
+        peers: roomManager.getRoomClients(roomId),
+        createdAt: room.createdAt,
+        settings: room.settings,
+        passphraseRequired: roomManager.requiresPassphrase(roomId),
+        locked: roomManager.isLocked(roomId)
       });
     } catch (error) {
       console.error('Error getting room status:', error);
@@ -178,9 +262,25 @@ export function setupRoutes(app: Express, httpServer: HttpServer) {
     }
   });
 
+  // Counters for operators; no room or client details
+  app.get('/api/stats', (req, res) => {
+    res.json({ backpressure: roomManager.getBackpressureStats(), rateLimits: rateLimiter.getStats() });
+  });
+
   // WebSocket server setup on distinct path
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  setupWebSocketHandler(wss, roomManager);
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    // Refused before the upgrade, so clients get a plain 429 with Retry-After
+    verifyClient: (info, callback) => {
+      const wait = rateLimiter.checkConnection(getClientIp(info.req));
+      if (wait === 0) return callback(true);
+      callback(false, 429, 'Too Many Requests', { 'Retry-After': `${toRetryAfter(wait)}` });
+    }
+  });
+  setupWebSocketHandler(wss, roomManager, rateLimiter);
 
   console.log('Routes and WebSocket server configured');
+
+  return { roomManager };
 }
@@ -0,0 +1,78 @@
+import { describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { BackpressureGuard, classifyMessage, getTransfer } from '../backpressure.js';
+import { CloseCode } from '../../shared/protocol.js';
+
+function fakeSocket(bufferedAmount: number) {
+  return {
+    bufferedAmount,
+    sent: [] as unknown[],
+    closedWith: null as number | null,
+    send(data: unknown) { this.sent.push(data); },
+    close(code: number) { this.closedWith = code; }
+  };
+}
+
+const limits = { presence: 100, media: 1000, maxBuffered: 10_000, slowConsumerGrace: 5000 };
+
+describe('BackpressureGuard', () => {
+  test('drops presence first, then media, never chat', () => {
+    const guard = new BackpressureGuard(limits);
+    const ws = fakeSocket(500);
+    const socket = ws as unknown as WebSocket;
+
+    assert.equal(guard.send(socket, 'typing', 'presence'), false);
+    assert.equal(guard.send(socket, 'chunk', 'media'), true);
+
+    ws.bufferedAmount = 5000;
+    assert.equal(guard.send(socket, 'chunk', 'media'), false);
+    assert.equal(guard.send(socket, 'chat', 'chat'), true);
+
+    assert.deepEqual(ws.sent, ['chunk', 'chat']);
+    assert.deepEqual(guard.getStats(), { dropped: { presence: 1, media: 1 }, slowConsumersDisconnected: 0 });
+  });
+
+  test('closes sockets over the hard limit', () => {
+    const guard = new BackpressureGuard(limits);
+    const ws = fakeSocket(20_000);
+
+    assert.equal(guard.send(ws as unknown as WebSocket, 'chat', 'chat'), false);
+    assert.equal(ws.closedWith, CloseCode.SLOW_CONSUMER);
+    assert.equal(guard.getStats().slowConsumersDisconnected, 1);
+  });
+
+  test('closes sockets that stay backed up past the grace period', () => {
+    let now = 0;
+    mock.method(Date, 'now', () => now);
+    try {
+      const guard = new BackpressureGuard(limits);
+      const ws = fakeSocket(2000);
+      const socket = ws as unknown as WebSocket;
+
+      guard.send(socket, 'chat', 'chat');
+      now += 4000;
+      guard.send(socket, 'chat', 'chat');
+      assert.equal(ws.closedWith, null);
+
+      now += 2000;
+      guard.send(socket, 'chat', 'chat');
+      assert.equal(ws.closedWith, CloseCode.SLOW_CONSUMER);
+    } finally {
+      mock.restoreAll();
+    }
+  });
+});
+
+test('classifyMessage', () => {
+  assert.equal(classifyMessage('presence'), 'presence');
+  assert.equal(classifyMessage('file-chunk'), 'media');
+  assert.equal(classifyMessage('media_end'), 'chat');
+});
+
+test('getTransfer finds the transfer chunks and their last message belong to', () => {
+  assert.deepEqual(getTransfer({ type: 'media_chunk', mediaId: 'm1', clientId: 'a' }), { id: 'm1', senderId: 'a', last: false });
+  assert.deepEqual(getTransfer({ type: 'media_end', mediaURL: 'm1', clientId: 'a' }), { id: 'm1', senderId: 'a', last: true });
+  assert.deepEqual(getTransfer({ type: 'file-complete', transferId: 't1', clientId: 'a' }), { id: 't1', senderId: 'a', last: true });
+  assert.equal(getTransfer({ type: 'message' }), undefined);
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { ClientIdentitySigner, createClientIdentitySigner, loadIdentitySecret } from '../clientIdentity.js';
+import { InProcessMessageBus } from '../messageBus.js';
+import { RoomManager } from '../roomManager.js';
+import { DEFAULT_ROOM_SETTINGS } from '../roomSettings.js';
+import { createRoomStore } from '../roomStore.js';
+
+test('tokens verify for their own room and client ID only', () => {
+  const signer = new ClientIdentitySigner('secret');
+  const token = signer.sign('ROOM01', 'alice');
+
+  assert.equal(signer.verify('ROOM01', 'alice', token), true);
+  assert.equal(signer.verify('ROOM02', 'alice', token), false);
+  assert.equal(signer.verify('ROOM01', 'bob', token), false);
+  assert.equal(signer.verify('ROOM01', 'alice', undefined), false);
+  assert.equal(signer.verify('ROOM01', 'alice', token.slice(1)), false);
+});
+
+test('instances sharing a secret accept each other\'s tokens', () => {
+  const token = new ClientIdentitySigner('secret').sign('ROOM01', 'alice');
+  assert.equal(new ClientIdentitySigner('secret').verify('ROOM01', 'alice', token), true);
+  assert.equal(new ClientIdentitySigner().verify('ROOM01', 'alice', token), false);
+});
+
+test('the file store keeps the secret, so members can re-init after a restart', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'silento-'));
+  const env = { ...process.env };
+  process.env.ROOM_STORE = 'file';
+  process.env.ROOM_STORE_PATH = path.join(dir, 'rooms.json');
+  delete process.env.CLIENT_IDENTITY_SECRET;
+
+  // Each manager stands for one server process
+  const start = () => new RoomManager(createRoomStore(), new InProcessMessageBus(new EventEmitter()), undefined, createClientIdentitySigner());
+  try {
+    const before = start();
+    const roomId = before.createRoom(DEFAULT_ROOM_SETTINGS, { ownerId: 'alice' });
+    const token = before.issueIdentityToken(roomId, 'alice');
+    before.close();
+
+    const after = start();
+    try {
+      assert.equal(after.isClientIdClaimed(roomId, 'alice'), true);
+      assert.equal(after.verifyIdentityToken(roomId, 'alice', token), true);
+      assert.equal(after.verifyIdentityToken(roomId, 'alice', 'forged'), false);
+    } finally {
+      after.close();
+    }
+  } finally {
+    process.env = env;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('loadIdentitySecret creates the secret once', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'silento-'));
+  try {
+    const secretPath = path.join(dir, 'nested', 'identity-secret');
+    const secret = loadIdentitySecret(secretPath);
+    assert.ok(secret.length > 0);
+    assert.equal(loadIdentitySecret(secretPath), secret);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageBacklog } from '../messageBacklog.js';
+
+let now = 0;
+
+beforeEach(() => {
+  now = 1_000_000;
+  mock.method(Date, 'now', () => now);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const ids = (backlog: MessageBacklog, cursor?: unknown) => backlog.since(cursor).map(message => message.messageId);
+
+test('returns messages after the cursor, oldest first', () => {
+  const backlog = new MessageBacklog();
+  assert.equal(backlog.append('m1', 'alice', 'e1', 100), 1);
+  assert.equal(backlog.append('m2', 'bob', 'e2', 200), 2);
+  assert.equal(backlog.append('m3', 'alice', 'e3', 300), 3);
+
+  assert.deepEqual(backlog.since(), [
+    { seq: 1, messageId: 'm1', clientId: 'alice', envelope: 'e1', timestamp: 100 },
+    { seq: 2, messageId: 'm2', clientId: 'bob', envelope: 'e2', timestamp: 200 },
+    { seq: 3, messageId: 'm3', clientId: 'alice', envelope: 'e3', timestamp: 300 }
+  ]);
+  assert.deepEqual(ids(backlog, 2), ['m3']);
+  assert.deepEqual(ids(backlog, 3), []);
+  assert.deepEqual(ids(backlog, 'garbage'), ['m1', 'm2', 'm3']);
+});
+
+test('a cursor from before a restart gets the whole backlog', () => {
+  const backlog = new MessageBacklog();
+  backlog.append('m1', 'alice', 'e1', 100);
+  assert.deepEqual(ids(backlog, 57), ['m1']);
+});
+
+test('drops the oldest messages once a count or size limit is hit', () => {
+  const byCount = new MessageBacklog({ maxMessages: 2 });
+  byCount.append('m1', 'alice', 'e1', 100);
+  byCount.append('m2', 'alice', 'e2', 200);
+  byCount.append('m3', 'alice', 'e3', 300);
+  assert.deepEqual(ids(byCount), ['m2', 'm3']);
+
+  const bySize = new MessageBacklog({ maxSize: 10 });
+  bySize.append('m1', 'alice', 'aaaa', 100);
+  bySize.append('m2', 'alice', 'bbbb', 200);
+  bySize.append('m3', 'alice', 'cccc', 300);
+  assert.deepEqual(ids(bySize), ['m2', 'm3']);
+
+  // Removing and replacing envelopes frees their space
+  bySize.remove('m2');
+  bySize.replace('m3', 'cc');
+  bySize.append('m4', 'alice', 'dddddddd', 400);
+  assert.deepEqual(ids(bySize), ['m3', 'm4']);
+});
+
+test('drops messages older than the age limit', () => {
+  const backlog = new MessageBacklog({ maxAge: 1000 });
+  backlog.append('m1', 'alice', 'e1', 100);
+  now += 500;
+  backlog.append('m2', 'alice', 'e2', 200);
+  now += 501;
+  assert.deepEqual(ids(backlog), ['m2']);
+});
+
+test('self-destructing messages expire and report the time they have left', () => {
+  const backlog = new MessageBacklog();
+  backlog.append('m1', 'alice', 'e1', 100);
+  backlog.append('m2', 'alice', 'e2', 200, 5000);
+  backlog.append('m3', 'alice', 'e3', 300);
+
+  now += 2000;
+  assert.deepEqual(backlog.since().map(message => message.ttl), [undefined, 3000, undefined]);
+
+  now += 3000;
+  assert.deepEqual(ids(backlog), ['m1', 'm3']);
+});
+
+test('envelopes over the size limit are not kept', () => {
+  const backlog = new MessageBacklog({ maxEnvelopeSize: 4 });
+  assert.equal(backlog.append('m1', 'alice', 'too long', 100), null);
+  assert.equal(backlog.append('m2', 'alice', 'e2', 200), 1);
+
+  // An edit that no longer fits takes the message out rather than keeping stale text
+  backlog.replace('m2', 'too long');
+  assert.deepEqual(ids(backlog), []);
+});
+
+test('edits keep the message in place and unsends remove it', () => {
+  const backlog = new MessageBacklog();
+  backlog.append('m1', 'alice', 'e1', 100);
+  backlog.append('m2', 'alice', 'e2', 200);
+
+  backlog.replace('m1', 'edited');
+  backlog.replace('unknown', 'ignored');
+  assert.deepEqual(backlog.since().map(message => [message.seq, message.envelope]), [[1, 'edited'], [2, 'e2']]);
+
+  backlog.remove('m1');
+  assert.deepEqual(ids(backlog), ['m2']);
+
+  backlog.clear();
+  assert.deepEqual(ids(backlog), []);
+});
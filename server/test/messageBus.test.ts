@@ -0,0 +1,137 @@
+import { describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { BusEvent, InProcessMessageBus, RespParser } from '../messageBus.js';
+import { RoomManager } from '../roomManager.js';
+import { MemoryRoomStore } from '../roomStore.js';
+
+// Bus events are delivered asynchronously, as over a network
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RespParser', () => {
+  test('parses each RESP2 type', () => {
+    const parser = new RespParser();
+    assert.deepEqual(parser.push(Buffer.from('+OK\r\n:42\r\n$5\r\nhello\r\n$-1\r\n*-1\r\n')), ['OK', 42, 'hello', null, null]);
+
+    const [error] = parser.push(Buffer.from('-ERR unknown command\r\n'));
+    assert.ok(error instanceof Error);
+    assert.equal(error.message, 'ERR unknown command');
+  });
+
+  test('parses nested arrays such as pub/sub messages', () => {
+    const parser = new RespParser();
+    const reply = '*3\r\n$7\r\nmessage\r\n$4\r\nchan\r\n*2\r\n:1\r\n$2\r\nhi\r\n';
+    assert.deepEqual(parser.push(Buffer.from(reply)), [['message', 'chan', [1, 'hi']]]);
+  });
+
+  test('waits for values split across chunks', () => {
+    const parser = new RespParser();
+    assert.deepEqual(parser.push(Buffer.from('*2\r\n$5\r\nhel')), []);
+    assert.deepEqual(parser.push(Buffer.from('lo\r\n$5\r\nwo')), []);
+    assert.deepEqual(parser.push(Buffer.from('rld\r\n+OK\r')), [['hello', 'world']]);
+    assert.deepEqual(parser.push(Buffer.from('\n')), ['OK']);
+  });
+
+  test('counts bulk string lengths in bytes', () => {
+    assert.deepEqual(new RespParser().push(Buffer.from('$4\r\néé\r\n')), ['éé']);
+  });
+});
+
+describe('InProcessMessageBus', () => {
+  test('delivers to the other buses on its hub, not to itself', async () => {
+    const hub = new EventEmitter();
+    const first = new InProcessMessageBus(hub);
+    const second = new InProcessMessageBus(hub);
+    const received: [string, BusEvent, string][] = [];
+    first.subscribe((event, origin) => received.push(['first', event, origin]));
+    second.subscribe((event, origin) => received.push(['second', event, origin]));
+
+    const event: BusEvent = { kind: 'client-left', roomId: 'ROOM', clientId: 'a' };
+    first.publish(event);
+    await flush();
+    assert.deepEqual(received, [['second', event, first.instanceId]]);
+
+    second.close();
+    first.publish(event);
+    await flush();
+    assert.equal(received.length, 1);
+    first.close();
+  });
+});
+
+describe('RoomManager across instances', () => {
+  function fakeSocket() {
+    return {
+      readyState: WebSocket.OPEN,
+      bufferedAmount: 0,
+      received: [] as any[],
+      send(data: string) { this.received.push(JSON.parse(data)); },
+      close() {},
+      on() {}
+    };
+  }
+
+  test('peers on different instances see each other and their messages', async () => {
+    const hub = new EventEmitter();
+    const first = new RoomManager(new MemoryRoomStore(), new InProcessMessageBus(hub));
+    const second = new RoomManager(new MemoryRoomStore(), new InProcessMessageBus(hub));
+    try {
+      const roomId = first.createRoom();
+      await flush();
+
+      const alice = fakeSocket();
+      const bob = fakeSocket();
+      first.addClientToRoom(roomId, 'alice', alice as unknown as WebSocket);
+      await flush();
+      second.addClientToRoom(roomId, 'bob', bob as unknown as WebSocket);
+      await flush();
+      assert.deepEqual(first.getRoomClients(roomId).sort(), ['alice', 'bob']);
+      assert.deepEqual(second.getRoomClients(roomId).sort(), ['alice', 'bob']);
+
+      first.broadcastToRoom(roomId, { type: 'message', messageId: 'm1', clientId: 'alice', content: 'hi' }, 'alice');
+      await flush();
+      assert.deepEqual(bob.received.filter(message => message.type === 'message').map(message => message.content), ['hi']);
+      assert.equal(alice.received.some(message => message.type === 'message'), false);
+
+      // The sender is known on both instances, so edits can go through either
+      assert.equal(second.getMessageSender(roomId, 'm1'), 'alice');
+    } finally {
+      first.close();
+      second.close();
+    }
+  });
+
+  test('only chat and media keep the room alive on every instance', async () => {
+    let now = 1_000_000;
+    mock.method(Date, 'now', () => now);
+    const hub = new EventEmitter();
+    const first = new RoomManager(new MemoryRoomStore(), new InProcessMessageBus(hub));
+    const second = new RoomManager(new MemoryRoomStore(), new InProcessMessageBus(hub));
+    try {
+      const roomId = first.createRoom();
+      await flush();
+      first.addClientToRoom(roomId, 'alice', fakeSocket() as unknown as WebSocket);
+      second.addClientToRoom(roomId, 'bob', fakeSocket() as unknown as WebSocket);
+      await flush();
+      const joinedAt = now;
+
+      now += 1000;
+      first.broadcastToRoom(roomId, { type: 'typing-start', clientId: 'alice' }, 'alice');
+      first.broadcastToRoom(roomId, { type: 'presence', clientId: 'alice', state: 'idle' }, 'alice');
+      await flush();
+      assert.equal(first.getRoom(roomId)?.lastActivity, joinedAt);
+      assert.equal(second.getRoom(roomId)?.lastActivity, joinedAt);
+
+      now += 1000;
+      first.broadcastToRoom(roomId, { type: 'message', messageId: 'm1', clientId: 'alice', content: 'hi' }, 'alice');
+      await flush();
+      assert.equal(first.getRoom(roomId)?.lastActivity, now);
+      assert.equal(second.getRoom(roomId)?.lastActivity, now);
+    } finally {
+      first.close();
+      second.close();
+      mock.restoreAll();
+    }
+  });
+});
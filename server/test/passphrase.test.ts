@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { hashPassphrase, isValidPassphrase, verifyPassphrase } from '../passphrase.js';
+
+test('only the verifier is kept, and it accepts the passphrase alone', async () => {
+  const verifier = await hashPassphrase('correct horse');
+  assert.equal(verifier.algorithm, 'scrypt');
+  assert.equal(JSON.stringify(verifier).includes('correct horse'), false);
+
+  assert.equal(await verifyPassphrase('correct horse', verifier), true);
+  assert.equal(await verifyPassphrase('correct horsE', verifier), false);
+  assert.equal(await verifyPassphrase(undefined, verifier), false);
+  assert.equal(await verifyPassphrase(42, verifier), false);
+});
+
+test('each verifier has its own salt', async () => {
+  const [first, second] = await Promise.all([hashPassphrase('secret'), hashPassphrase('secret')]);
+  assert.notEqual(first.salt, second.salt);
+  assert.notEqual(first.hash, second.hash);
+});
+
+test('verifiers keep the parameters they were made with', async () => {
+  // Made with weaker parameters than the current ones, e.g. by an older version
+  const salt = Buffer.from('0123456789abcdef');
+  const params = { N: 1024, r: 8, p: 1 };
+  const verifier = {
+    algorithm: 'scrypt' as const,
+    salt: salt.toString('base64'),
+    hash: crypto.scryptSync('secret', salt, 32, params).toString('base64'),
+    ...params
+  };
+
+  assert.equal(await verifyPassphrase('secret', verifier), true);
+});
+
+test('composed and decomposed forms of a passphrase are the same', async () => {
+  const verifier = await hashPassphrase('caf\u00e9');
+  assert.equal(await verifyPassphrase('cafe\u0301', verifier), true);
+});
+
+test('passphrases must be 4 to 128 characters', async () => {
+  assert.equal(isValidPassphrase('abcd'), true);
+  assert.equal(isValidPassphrase('a'.repeat(128)), true);
+  assert.equal(isValidPassphrase('abc'), false);
+  assert.equal(isValidPassphrase('a'.repeat(129)), false);
+  assert.equal(isValidPassphrase(1234), false);
+
+  // Overlong guesses are turned away without hashing them
+  const verifier = await hashPassphrase('a'.repeat(128));
+  assert.equal(await verifyPassphrase('a'.repeat(129), verifier), false);
+});
@@ -0,0 +1,54 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ErrorCode,
+  LEGACY_PROTOCOL,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  negotiateProtocol,
+  supportsMessage
+} from '../protocol.js';
+
+describe('negotiateProtocol', () => {
+  test('treats an init without a version as the legacy protocol', () => {
+    assert.equal(negotiateProtocol(undefined, undefined), LEGACY_PROTOCOL);
+  });
+
+  test('downgrades newer clients to the server version', () => {
+    assert.equal(negotiateProtocol(PROTOCOL_VERSION + 1, []).version, PROTOCOL_VERSION);
+  });
+
+  test('drops unknown capabilities and ones missing their dependency', () => {
+    const { capabilities } = negotiateProtocol(PROTOCOL_VERSION, ['chat', 'receipts', 'binary-media', 'teleport']);
+    assert.deepEqual([...capabilities].sort(), ['chat', 'receipts']);
+  });
+
+  test('rejects invalid versions', () => {
+    for (const version of [0, 1.5, '2', null]) {
+      assert.throws(
+        () => negotiateProtocol(version, []),
+        (error: unknown) => error instanceof ProtocolError && error.code === ErrorCode.UNSUPPORTED_PROTOCOL_VERSION
+      );
+    }
+  });
+
+  test('rejects capability lists that are not arrays of strings', () => {
+    for (const capabilities of [undefined, 'chat', ['chat', 1]]) {
+      assert.throws(
+        () => negotiateProtocol(PROTOCOL_VERSION, capabilities),
+        (error: unknown) => error instanceof ProtocolError && error.code === ErrorCode.INVALID_CAPABILITIES
+      );
+    }
+  });
+});
+
+describe('supportsMessage', () => {
+  test('allows core messages and those of negotiated capabilities only', () => {
+    const protocol = negotiateProtocol(PROTOCOL_VERSION, ['chat']);
+    assert.equal(supportsMessage(protocol, 'init'), true);
+    assert.equal(supportsMessage(protocol, 'message'), true);
+    assert.equal(supportsMessage(protocol, 'typing-start'), false);
+    assert.equal(supportsMessage(LEGACY_PROTOCOL, 'media_chunk'), true);
+    assert.equal(supportsMessage(LEGACY_PROTOCOL, 'reaction'), false);
+  });
+});
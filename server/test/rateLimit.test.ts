@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, RateLimits, TokenBuckets, getMessageCost, toRetryAfter } from '../rateLimit.js';
+
+let now = 0;
+
+beforeEach(() => {
+  now = 1_000_000;
+  mock.method(Date, 'now', () => now);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('TokenBuckets', () => {
+  test('starts full and refills steadily up to capacity', () => {
+    const buckets = new TokenBuckets({ capacity: 10, refillPerSecond: 2 });
+    assert.equal(buckets.timeUntil('ip', 10), 0);
+
+    buckets.spend('ip', 10);
+    assert.equal(buckets.timeUntil('ip', 1), 500);
+
+    now += 1000;
+    assert.equal(buckets.timeUntil('ip', 2), 0);
+    assert.equal(buckets.timeUntil('ip', 3), 500);
+
+    now += 60_000;
+    buckets.spend('ip', 10);
+    assert.equal(buckets.timeUntil('ip', 1), 500);
+  });
+
+  test('keeps keys apart', () => {
+    const buckets = new TokenBuckets({ capacity: 1, refillPerSecond: 1 });
+    buckets.spend('a', 1);
+    assert.equal(buckets.timeUntil('a', 1), 1000);
+    assert.equal(buckets.timeUntil('b', 1), 0);
+  });
+});
+
+describe('RateLimiter', () => {
+  const limits: RateLimits = {
+    http: { capacity: 2, refillPerSecond: 1 },
+    connections: { capacity: 5, refillPerSecond: 1 },
+    maxSocketsPerIp: 2,
+    messagesPerIp: { capacity: 100, refillPerSecond: 10 },
+    messagesPerClient: { capacity: 10, refillPerSecond: 1 },
+    messagesPerRoom: { capacity: 15, refillPerSecond: 1 }
+  };
+
+  test('limits HTTP requests per IP', () => {
+    const limiter = new RateLimiter(limits);
+    assert.equal(limiter.checkRequest('ip'), 0);
+    assert.equal(limiter.checkRequest('ip'), 0);
+    assert.equal(limiter.checkRequest('ip'), 1000);
+    assert.equal(limiter.checkRequest('other'), 0);
+    assert.equal(limiter.getStats().limited.http, 1);
+  });
+
+  test('caps open sockets per IP', () => {
+    const limiter = new RateLimiter(limits);
+    limiter.openSocket('ip');
+    limiter.openSocket('ip');
+    assert.ok(limiter.checkConnection('ip') > 0);
+
+    limiter.closeSocket('ip');
+    assert.equal(limiter.checkConnection('ip'), 0);
+  });
+
+  test('charges messages to the IP, the client and the room', () => {
+    const limiter = new RateLimiter(limits);
+    assert.equal(limiter.checkMessage(10, 'ip', 'ROOM', 'a'), 0);
+    assert.ok(limiter.checkMessage(1, 'ip', 'ROOM', 'a') > 0);
+
+    // Another client has its own bucket but shares the room's
+    assert.equal(limiter.checkMessage(5, 'ip', 'ROOM', 'b'), 0);
+    assert.ok(limiter.checkMessage(1, 'ip', 'ROOM', 'b') > 0);
+  });
+
+  test('spends nothing when any bucket is short', () => {
+    const limiter = new RateLimiter(limits);
+    assert.equal(limiter.checkMessage(10, 'ip', 'ROOM', 'a'), 0);
+    assert.ok(limiter.checkMessage(6, 'ip', 'ROOM', 'b') > 0);
+
+    // The rejected message left the room bucket at 5
+    assert.equal(limiter.checkMessage(5, 'ip', 'ROOM', 'b'), 0);
+    assert.equal(limiter.getStats().limited.messages, 1);
+  });
+
+  test('charges clients outside a room to their IP only', () => {
+    const limiter = new RateLimiter(limits);
+    assert.equal(limiter.checkMessage(50, 'ip', null, null), 0);
+    assert.equal(limiter.checkMessage(50, 'ip', null, null), 0);
+    assert.ok(limiter.checkMessage(1, 'ip', null, null) > 0);
+  });
+});
+
+test('cheap messages cost less than chunks and unknown types', () => {
+  assert.equal(getMessageCost('typing-start'), 1);
+  assert.equal(getMessageCost('media_chunk'), 10);
+  assert.equal(getMessageCost('message'), 5);
+  assert.equal(getMessageCost(''), 5);
+});
+
+test('Retry-After rounds up to whole seconds', () => {
+  assert.equal(toRetryAfter(1), 1);
+  assert.equal(toRetryAfter(1000), 1);
+  assert.equal(toRetryAfter(1001), 2);
+});
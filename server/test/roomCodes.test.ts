@@ -0,0 +1,91 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RoomCodeGenerator, loadRoomCodeConfig } from '../roomCodes.js';
+
+describe('RoomCodeGenerator', () => {
+  test('alphanumeric codes match the format they advertise', () => {
+    const generator = new RoomCodeGenerator({ length: 8, alphabet: 'abcdefghjk-]' });
+    const info = generator.describe();
+    const pattern = new RegExp(info.pattern);
+
+    assert.equal(info.format, 'alphanumeric');
+    assert.equal(info.maxLength, 8);
+    assert.equal(info.caseSensitive, true);
+    assert.match(info.example, pattern);
+    for (let i = 0; i < 50; i++) {
+      assert.match(generator.generate(), pattern);
+    }
+  });
+
+  test('word codes match the format they advertise', () => {
+    const generator = new RoomCodeGenerator({ format: 'words', wordCount: 3, digits: 3 });
+    const info = generator.describe();
+    const pattern = new RegExp(info.pattern);
+
+    assert.equal(info.caseSensitive, false);
+    assert.equal(info.example, 'amber-bold-falcon-042');
+    assert.match(info.example, pattern);
+    for (let i = 0; i < 50; i++) {
+      const code = generator.generate();
+      assert.match(code, pattern);
+      assert.ok(code.length <= info.maxLength);
+    }
+
+    assert.match(new RoomCodeGenerator({ format: 'words', wordCount: 1, digits: 0 }).generate(), /^[a-z]+$/);
+  });
+
+  test('normalizes input onto the canonical form', () => {
+    assert.equal(new RoomCodeGenerator().normalize(' ab12cd '), 'AB12CD');
+    assert.equal(new RoomCodeGenerator({ alphabet: 'abcdefghjk' }).normalize('abCD'), 'abCD');
+    assert.equal(new RoomCodeGenerator({ format: 'words' }).normalize(' Amber  Falcon_42 '), 'amber-falcon-42');
+  });
+
+  test('retries collisions a bounded number of times', () => {
+    const generator = new RoomCodeGenerator();
+    let attempts = 0;
+    const code = generator.generateUnique(() => ++attempts < 3);
+    assert.equal(attempts, 3);
+    assert.match(code, /^[A-Z0-9]{6}$/);
+
+    attempts = 0;
+    assert.throws(() => generator.generateUnique(() => { attempts++; return true; }), /Unable to generate a unique room code/);
+    assert.equal(attempts, 10);
+  });
+});
+
+describe('loadRoomCodeConfig', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test('reads the format from the environment', () => {
+    process.env.ROOM_CODE_FORMAT = 'words';
+    process.env.ROOM_CODE_WORDS = '3';
+    process.env.ROOM_CODE_DIGITS = '0';
+
+    const config = loadRoomCodeConfig();
+    assert.equal(config.format, 'words');
+    assert.equal(config.wordCount, 3);
+    assert.equal(config.digits, 0);
+    assert.equal(config.length, 6);
+  });
+
+  test('rejects settings that would make weak or unusable codes', () => {
+    const invalid: Record<string, string>[] = [
+      { ROOM_CODE_FORMAT: 'emoji' },
+      { ROOM_CODE_LENGTH: '3' },
+      { ROOM_CODE_LENGTH: 'six' },
+      { ROOM_CODE_ALPHABET: 'ABCDEFGHI' },
+      { ROOM_CODE_ALPHABET: 'AABCDEFGHIJ' },
+      { ROOM_CODE_WORDS: '6' },
+      { ROOM_CODE_DIGITS: '7' }
+    ];
+
+    for (const overrides of invalid) {
+      process.env = { ...env, ...overrides };
+      assert.throws(() => loadRoomCodeConfig(), Error, JSON.stringify(overrides));
+    }
+  });
+});
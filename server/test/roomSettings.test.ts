@@ -0,0 +1,99 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_ROOM_SETTINGS,
+  RoomSettingsError,
+  getContentType,
+  parseMessageTtl,
+  parseRoomSettings,
+  withDefaults
+} from '../roomSettings.js';
+
+describe('parseRoomSettings', () => {
+  test('missing settings fall back to the defaults', () => {
+    assert.deepEqual(parseRoomSettings(undefined), DEFAULT_ROOM_SETTINGS);
+    assert.deepEqual(parseRoomSettings(null), DEFAULT_ROOM_SETTINGS);
+    assert.deepEqual(parseRoomSettings({ maxClients: 2 }), { ...DEFAULT_ROOM_SETTINGS, maxClients: 2 });
+  });
+
+  test('accepts every setting within its limits', () => {
+    assert.deepEqual(parseRoomSettings({
+      maxClients: 20,
+      expiryTime: 60 * 1000,
+      maxLifetime: 24 * 60 * 60 * 1000,
+      allowedContent: ['text', 'image', 'text'],
+      lobby: true,
+      backlog: true,
+      messageTtl: 5 * 1000
+    }), {
+      maxClients: 20,
+      expiryTime: 60 * 1000,
+      maxLifetime: 24 * 60 * 60 * 1000,
+      allowedContent: ['text', 'image'],
+      lobby: true,
+      backlog: true,
+      messageTtl: 5 * 1000
+    });
+
+    const cleared = parseRoomSettings({ maxLifetime: null, messageTtl: null });
+    assert.equal(cleared.maxLifetime, null);
+    assert.equal(cleared.messageTtl, null);
+  });
+
+  test('rejects settings outside their limits', () => {
+    const invalid = [
+      'settings',
+      [],
+      { maxClients: 1 },
+      { maxClients: 21 },
+      { maxClients: 2.5 },
+      { maxClients: '5' },
+      { expiryTime: 59 * 1000 },
+      { maxLifetime: 25 * 60 * 60 * 1000 },
+      { allowedContent: [] },
+      { allowedContent: 'text' },
+      { allowedContent: ['text', 'gif'] },
+      { lobby: 'yes' },
+      { backlog: 1 },
+      { messageTtl: 1000 }
+    ];
+
+    for (const input of invalid) {
+      assert.throws(() => parseRoomSettings(input), RoomSettingsError, JSON.stringify(input));
+    }
+  });
+});
+
+describe('withDefaults', () => {
+  test('fills in settings missing from older records without sharing the defaults', () => {
+    const settings = withDefaults({ maxClients: 4 });
+    assert.deepEqual(settings, { ...DEFAULT_ROOM_SETTINGS, maxClients: 4 });
+
+    settings.allowedContent.pop();
+    assert.equal(DEFAULT_ROOM_SETTINGS.allowedContent.length, 5);
+  });
+});
+
+describe('parseMessageTtl', () => {
+  test('only accepts whole milliseconds between 5 seconds and 24 hours', () => {
+    assert.equal(parseMessageTtl(5000), 5000);
+    assert.equal(parseMessageTtl(24 * 60 * 60 * 1000), 24 * 60 * 60 * 1000);
+    assert.equal(parseMessageTtl(4999), undefined);
+    assert.equal(parseMessageTtl(24 * 60 * 60 * 1000 + 1), undefined);
+    assert.equal(parseMessageTtl(5000.5), undefined);
+    assert.equal(parseMessageTtl('5000'), undefined);
+    assert.equal(parseMessageTtl(undefined), undefined);
+  });
+});
+
+describe('getContentType', () => {
+  test('maps message and MIME types onto content types', () => {
+    assert.equal(getContentType(), 'text');
+    assert.equal(getContentType('text'), 'text');
+    assert.equal(getContentType('video'), 'video');
+    assert.equal(getContentType('image/png'), 'image');
+    assert.equal(getContentType('video/mp4'), 'video');
+    assert.equal(getContentType('audio/mpeg'), 'audio');
+    assert.equal(getContentType('application/pdf'), 'file');
+  });
+});
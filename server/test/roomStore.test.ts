@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileRoomStore, MemoryRoomStore, RoomRecord } from '../roomStore.js';
+import { DEFAULT_ROOM_SETTINGS } from '../roomSettings.js';
+
+const room = (id: string, overrides: Partial<RoomRecord> = {}): RoomRecord => ({
+  id,
+  createdAt: 1000,
+  lastActivity: 2000,
+  settings: { ...DEFAULT_ROOM_SETTINGS, allowedContent: ['text'] },
+  ownerId: 'alice',
+  bannedClients: [],
+  members: ['alice'],
+  locked: false,
+  lifetimeExtension: 0,
+  ...overrides
+});
+
+describe('MemoryRoomStore', () => {
+  test('keeps copies, so later changes to a room are not stored until saved', () => {
+    const store = new MemoryRoomStore();
+    const record = room('ROOM01');
+    store.save(record);
+
+    record.members.push('bob');
+    record.settings.allowedContent.push('image');
+    assert.deepEqual(store.get('ROOM01')?.members, ['alice']);
+    assert.deepEqual(store.get('ROOM01')?.settings.allowedContent, ['text']);
+  });
+});
+
+describe('FileRoomStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'silento-'));
+    filePath = path.join(dir, 'rooms', 'rooms.json');
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('rooms saved before closing are there after a restart', () => {
+    const before = new FileRoomStore(filePath);
+    before.save(room('ROOM01', { locked: true, bannedClients: ['mallory'] }));
+    before.save(room('ROOM02'));
+    before.delete('ROOM02');
+    before.close();
+
+    const after = new FileRoomStore(filePath);
+    assert.deepEqual(after.list().map(record => record.id), ['ROOM01']);
+    assert.deepEqual(after.get('ROOM01'), room('ROOM01', { locked: true, bannedClients: ['mallory'] }));
+    after.close();
+  });
+
+  test('writes are batched into one flush a second after the first change', () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const store = new FileRoomStore(filePath);
+    const rename = mock.method(fs, 'renameSync');
+
+    store.save(room('ROOM01'));
+    store.save(room('ROOM01', { lastActivity: 3000 }));
+    store.save(room('ROOM02'));
+    mock.timers.tick(999);
+    assert.equal(rename.mock.callCount(), 0);
+
+    mock.timers.tick(1);
+    assert.equal(rename.mock.callCount(), 1);
+    const { rooms } = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    assert.deepEqual(rooms.map((record: RoomRecord) => [record.id, record.lastActivity]), [['ROOM01', 3000], ['ROOM02', 2000]]);
+
+    // Nothing is left pending, so closing writes once more and no timer fires later
+    store.close();
+    mock.timers.tick(1000);
+    assert.equal(rename.mock.callCount(), 2);
+  });
+
+  test('a corrupt file is reported and the store starts empty', () => {
+    const error = mock.method(console, 'error', () => {});
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{"rooms": [');
+
+    const store = new FileRoomStore(filePath);
+    assert.deepEqual(store.list(), []);
+    assert.equal(error.mock.callCount(), 1);
+
+    // The next flush replaces the corrupt file
+    store.save(room('ROOM01'));
+    store.close();
+    assert.deepEqual(new FileRoomStore(filePath).list().map(record => record.id), ['ROOM01']);
+  });
+
+  test('entries without an ID or settings are skipped', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ rooms: [room('ROOM01'), { id: 'ROOM02' }, { settings: {} }, null] }));
+
+    assert.deepEqual(new FileRoomStore(filePath).list().map(record => record.id), ['ROOM01']);
+  });
+});
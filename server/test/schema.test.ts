@@ -0,0 +1,90 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonSchema, validate } from '../../shared/schema.js';
+import { MAX_QUOTE_SNIPPET_LENGTH, validateClientMessage, validateServerMessage } from '../../shared/protocol.js';
+
+describe('validate', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 5 },
+      count: { type: 'integer', minimum: 0 },
+      tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] }, maxItems: 2 },
+      nested: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'], additionalProperties: false },
+      either: { anyOf: [{ type: 'string' }, { type: 'null' }] }
+    },
+    required: ['name']
+  };
+
+  test('accepts a matching value and ignores unknown fields', () => {
+    assert.deepEqual(validate(schema, { name: 'ok', count: 2, tags: ['a'], nested: { id: 'x' }, either: null, extra: 1 }), []);
+  });
+
+  test('reports every problem with a JSON Pointer to it', () => {
+    assert.deepEqual(validate(schema, { count: 1.5, tags: ['c'] }), [
+      { path: '/name', message: 'is required' },
+      { path: '/count', message: 'must be an integer' },
+      { path: '/tags/0', message: 'must be one of: a, b' }
+    ]);
+  });
+
+  test('checks string lengths', () => {
+    assert.deepEqual(validate(schema, { name: '' }), [{ path: '/name', message: 'must not be empty' }]);
+    assert.deepEqual(validate(schema, { name: 'toolong' }), [{ path: '/name', message: 'must be at most 5 characters' }]);
+  });
+
+  test('rejects extra fields where additionalProperties is false', () => {
+    assert.deepEqual(validate(schema, { name: 'ok', nested: { id: 'x', other: 1 } }), [
+      { path: '/nested/other', message: 'is not allowed' }
+    ]);
+  });
+
+  test('accepts any option of anyOf', () => {
+    assert.deepEqual(validate(schema, { name: 'ok', either: 'text' }), []);
+    assert.equal(validate(schema, { name: 'ok', either: 1 }).length, 1);
+  });
+
+  test('escapes keys in paths', () => {
+    const keyed: JsonSchema = { type: 'object', properties: {}, additionalProperties: { type: 'number' } };
+    assert.deepEqual(validate(keyed, { 'a/b~c': 'x' }), [{ path: '/a~1b~0c', message: 'must be a number' }]);
+  });
+
+  test('rejects values of the wrong type at the root', () => {
+    assert.deepEqual(validate(schema, []), [{ path: '/', message: 'must be an object' }]);
+  });
+});
+
+describe('validateClientMessage', () => {
+  test('rejects unknown message types', () => {
+    assert.deepEqual(validateClientMessage({ type: 'nope' }), {
+      ok: false,
+      errors: [{ path: '/type', message: '"nope" is not a known message type' }]
+    });
+  });
+
+  test('rejects quotes with extra fields or long snippets', () => {
+    const replyTo = { messageId: 'm1', senderId: 'a', snippet: 'hi', messageType: 'text' };
+    assert.equal(validateClientMessage({ type: 'message', content: 'x', replyTo }).ok, true);
+
+    const extra = validateClientMessage({ type: 'message', content: 'x', replyTo: { ...replyTo, html: '<b>' } });
+    assert.deepEqual(extra.ok ? [] : extra.errors, [{ path: '/replyTo/html', message: 'is not allowed' }]);
+
+    const long = validateClientMessage({
+      type: 'message',
+      content: 'x',
+      replyTo: { ...replyTo, snippet: 'a'.repeat(MAX_QUOTE_SNIPPET_LENGTH + 1) }
+    });
+    assert.deepEqual(long.ok ? [] : long.errors.map(error => error.path), ['/replyTo/snippet']);
+  });
+
+  test('accepts edits carried only in an envelope', () => {
+    assert.equal(validateClientMessage({ type: 'message-edit', messageId: 'm1', envelope: 'c2VhbGVk' }).ok, true);
+  });
+});
+
+describe('validateServerMessage', () => {
+  test('requires the fields clients rely on', () => {
+    const result = validateServerMessage({ type: 'transfer-aborted', clientId: 'a' });
+    assert.deepEqual(result.ok ? [] : result.errors, [{ path: '/transferId', message: 'is required' }]);
+  });
+});
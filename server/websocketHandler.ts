@@ -1,149 +1,365 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { RoomManager } from './roomManager.js';
-
-interface WebSocketMessage {
-  type: string;
-  roomId?: string;
-  clientId?: string;
-  from?: string;
-  to?: string;
-  payload?: any;
-  message?: string;
-  content?: string;  // Add content field for iOS app compatibility
-  messageType?: string;  // Add messageType field
-  mediaURL?: string;  // Add mediaURL field (used as mediaId for P2P)
-  fileName?: string;  // Add fileName field (already exists but different purpose)
-  timestamp?: number;
-  transferId?: string;
-  fileType?: string;
-  fileSize?: number;
-  fileData?: string;
-  chunkIndex?: number;
-  totalChunks?: number;
-  chunkData?: string;
-  // P2P Media Transfer fields
-  mediaId?: string;  // Unique identifier for media transfer
-}
+import crypto from 'crypto';
+import { CloseCode, RoomManager } from './roomManager.js';
+import { getContentType, parseMessageTtl } from './roomSettings.js';
+import {
+  ErrorCode,
+  LEGACY_PROTOCOL,
+  MIN_PROTOCOL_VERSION,
+  NegotiatedProtocol,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  getRequiredCapability,
+  negotiateProtocol,
+  supportsMessage
+} from './protocol.js';
+import { ClientMessageOf, isClientMessageType, validateClientMessage } from '../shared/protocol.js';
+import { decodeMediaChunkFrame } from '../shared/mediaFrame.js';
+import { isPlainObject } from '../shared/schema.js';
+import { DEFAULT_MESSAGE_COST, FRAME_COST, getClientIp, getMessageCost, RateLimiter, toRetryAfter } from './rateLimit.js';
 
-function handleChatMessage(message: WebSocketMessage, roomManager: RoomManager, currentRoomId: string) {
-  if (!message.roomId || !message.clientId || !currentRoomId) {
-    return;
-  }
+// Connections that miss this many pings in a row are assumed dead, e.g. a phone
+// put to sleep or a NAT mapping that timed out
+const HEARTBEAT_INTERVAL = 30 * 1000; // 30 seconds
+const MAX_MISSED_PONGS = 2;
+
+type FileMessage = ClientMessageOf<'file-start' | 'file-offer' | 'file-chunk' | 'file-complete'>;
+type SignalingMessage = ClientMessageOf<'offer' | 'answer' | 'ice-candidate'>;
+type MessageChange = ClientMessageOf<'message-edit' | 'message-delete'>;
+type OwnerAction = ClientMessageOf<'kick' | 'ban' | 'admit' | 'deny' | 'lock-room' | 'transfer-ownership'>;
 
+// Clients that do not pick a self-destruct time (e.g. the iOS app) get the room's default
+function resolveMessageTtl(roomManager: RoomManager, roomId: string, ttl: unknown): number | undefined {
+  return parseMessageTtl(ttl) ?? roomManager.getRoom(roomId)?.settings.messageTtl ?? undefined;
+}
+
+// Relayed messages carry the sender's ID as the server knows it, never one the client claims
+function handleChatMessage(message: ClientMessageOf<'message'>, roomManager: RoomManager, currentRoomId: string, senderId: string) {
   // Handle both 'content' (from iOS app) and 'message' (legacy) fields
-  const messageContent = (message as any).content || message.message;
+  const messageContent = message.content || message.message;
   
-  if (!messageContent) {
+  // In backlog rooms web clients send the text only inside the envelope
+  if (!messageContent && message.envelope === undefined) {
     console.error('No message content provided');
     return;
   }
 
-  console.log(`📤 Broadcasting message from ${message.clientId} to room ${currentRoomId}: "${messageContent}"`);
+  console.log(`📤 Broadcasting message from ${senderId} to room ${currentRoomId}`);
+
+  // Clients that do not pick their own IDs (e.g. the iOS app) get one, so receipts can refer to the message
+  const messageId = message.messageId ?? crypto.randomUUID();
+  roomManager.recordMessageSender(currentRoomId, messageId, senderId);
+  const ttl = resolveMessageTtl(roomManager, currentRoomId, message.ttl);
 
   // Broadcast message to all clients in the room except the sender
   roomManager.broadcastToRoom(currentRoomId, {
     type: 'message',
-    clientId: message.clientId,
-    content: messageContent,  // Use 'content' for consistency with iOS app
-    messageType: (message as any).messageType || 'text',
-    mediaURL: (message as any).mediaURL || '',
-    fileName: (message as any).fileName || '',
-    timestamp: message.timestamp || Date.now()
-  }, message.clientId);  // Exclude sender
+    messageId,
+    clientId: senderId,
+    ...(messageContent ? { content: messageContent } : {}),  // Use 'content' for consistency with iOS app
+    messageType: message.messageType || 'text',
+    mediaURL: message.mediaURL || '',
+    fileName: message.fileName || '',
+    timestamp: message.timestamp || Date.now(),
+    ...(message.replyTo ? { replyTo: message.replyTo } : {}),
+    ...(ttl ? { ttl } : {}),
+    ...(message.envelope !== undefined ? { envelope: message.envelope } : {})
+  }, senderId);  // Exclude sender
 }
 
-function handleFileMessage(message: WebSocketMessage, roomManager: RoomManager, currentRoomId: string) {
-  if (!message.roomId || !message.clientId || !currentRoomId) {
-    return;
-  }
-
+function handleFileMessage(message: FileMessage, roomManager: RoomManager, currentRoomId: string, senderId: string) {
   // Broadcast file message to all clients in the room except sender
-  roomManager.broadcastToRoom(currentRoomId, message, message.clientId);
+  roomManager.broadcastToRoom(currentRoomId, { ...message, clientId: senderId }, senderId);
 }
 
-export function setupWebSocketHandler(wss: WebSocketServer, roomManager: RoomManager) {
+export function setupWebSocketHandler(wss: WebSocketServer, roomManager: RoomManager, rateLimiter: RateLimiter) {
+  const missedPongs = new WeakMap<WebSocket, number>();
+
+  // Terminating fires the usual close handling, so dead clients leave their rooms like any other dropped connection
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      const missed = missedPongs.get(ws) ?? 0;
+      if (missed >= MAX_MISSED_PONGS) {
+        console.log(`Terminating connection that missed ${missed} pings`);
+        ws.terminate();
+        continue;
+      }
+
+      missedPongs.set(ws, missed + 1);
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+  wss.on('close', () => clearInterval(heartbeat));
+
   wss.on('connection', (ws: WebSocket, req) => {
     console.log('New WebSocket connection');
     
     let currentRoomId: string | null = null;
     let currentClientId: string | null = null;
+    // Set while the client waits in a room's lobby
+    let pendingRoomId: string | null = null;
+    let pendingClientId: string | null = null;
+    // File and media transfers whose content type the room allows; chunks for
+    // any other transfer are dropped
+    const acceptedTransfers = new Set<string>();
+    // Until init negotiates otherwise, the connection speaks the original protocol
+    let protocol: NegotiatedProtocol = LEGACY_PROTOCOL;
+    // Set while an init is being handled, e.g. during the passphrase check
+    let initializing = false;
+
+    ws.on('pong', () => missedPongs.set(ws, 0));
 
-    // Rate limiting for WebSocket messages
-    let messageCount = 0;
-    let resetTime = Date.now() + 60000; // 1 minute window
-    const MESSAGE_LIMIT = 200; // messages per minute
+    // Limits are shared by every socket from the same IP, client or room
+    const ip = getClientIp(req);
+    rateLimiter.openSocket(ip);
 
-    ws.on('message', (data: Buffer) => {
+    // Messages over a limit are dropped, and the sender is told when to try again
+    // (and which message was dropped, so it can undo any change it already showed)
+    function isRateLimited(cost: number, messageId?: string): boolean {
+      const wait = rateLimiter.checkMessage(cost, ip, currentRoomId, currentClientId);
+      if (wait === 0) return false;
+
+      ws.send(JSON.stringify({ 
+        type: 'error', 
+        code: ErrorCode.RATE_LIMITED,
+        message: 'Rate limit exceeded',
+        retryAfter: toRetryAfter(wait),
+        ...(messageId ? { messageId } : {}) 
+      }));
+      return true;
+    }
+
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
       try {
-        // Rate limiting check
-        const now = Date.now();
-        if (now > resetTime) {
-          messageCount = 0;
-          resetTime = now + 60000;
+        if (isRateLimited(FRAME_COST)) return;
+
+        if (isBinary) {
+          // Binary frames are media chunks and cost the same
+          if (!isRateLimited(getMessageCost('media_chunk') - FRAME_COST)) {
+            handleMediaFrame(data);
+          }
+          return;
         }
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(data.toString());
+        } catch (error) {
+          if (isRateLimited(DEFAULT_MESSAGE_COST - FRAME_COST)) return;
+          throw error;
+        }
+        // Only the type and message ID are read before the message is validated
+        const fields = isPlainObject(parsed) ? parsed : {};
+        const type = fields.type;
+        const messageId = fields.messageId;
+
+        // Malformed messages are charged like any other
+        if (isRateLimited(
+          getMessageCost(typeof type === 'string' ? type : '') - FRAME_COST,
+          typeof messageId === 'string' ? messageId : undefined
+        )) return;
         
-        if (messageCount >= MESSAGE_LIMIT) {
+        // Validate message format
+        if (!type || typeof type !== 'string') {
           ws.send(JSON.stringify({ 
             type: 'error', 
-            message: 'Rate limit exceeded' 
+            message: 'Invalid message format' 
           }));
           return;
         }
-        messageCount++;
 
-        const message: WebSocketMessage = JSON.parse(data.toString());
-        
-        // Validate message format
-        if (!message.type || typeof message.type !== 'string') {
+        if (!isClientMessageType(type)) {
           ws.send(JSON.stringify({ 
             type: 'error', 
-            message: 'Invalid message format' 
+            code: ErrorCode.UNSUPPORTED_MESSAGE_TYPE,
+            message: 'Unknown message type: ' + type 
+          }));
+          return;
+        }
+
+        if (!supportsMessage(protocol, type)) {
+          ws.send(JSON.stringify({ 
+            type: 'error', 
+            code: ErrorCode.CAPABILITY_NOT_NEGOTIATED,
+            message: `${type} needs the ${getRequiredCapability(type)} capability, which was not negotiated` 
           }));
           return;
         }
 
+        // Nothing is dispatched until it matches the shared schema for its type
+        const result = validateClientMessage(parsed);
+        if (!result.ok) {
+          ws.send(JSON.stringify({ 
+            type: 'error', 
+            code: ErrorCode.INVALID_MESSAGE,
+            message: `${type} does not match the protocol schema`,
+            errors: result.errors 
+          }));
+          return;
+        }
+        const message = result.message;
+
         switch (message.type) {
           case 'init':
-            handleInit(message, ws, roomManager);
+            // A connection joins once, so it never holds more than one client's slot
+            if (currentRoomId || initializing) {
+              ws.send(JSON.stringify({ 
+                type: 'error', 
+                message: 'This connection has already joined a room' 
+              }));
+              break;
+            }
+
+            initializing = true;
+            handleInit(message, ws, roomManager).catch((error) => {
+              console.error('Error initializing client:', error);
+              ws.send(JSON.stringify({ 
+                type: 'error', 
+                message: 'Failed to join room' 
+              }));
+            }).finally(() => {
+              initializing = false;
+            });
             break;
           
           case 'message':
-            if (currentRoomId && currentClientId) {
-              handleChatMessage(message, roomManager, currentRoomId);
+            if (currentRoomId && currentClientId && isContentAllowed(message.messageType)) {
+              handleChatMessage(message, roomManager, currentRoomId, currentClientId);
             }
             break;
             
           case 'file-start':
           case 'file-offer':
+            if (currentRoomId && currentClientId && isContentAllowed(message.fileType || 'file')) {
+              acceptedTransfers.add(message.transferId);
+              handleFileMessage(message, roomManager, currentRoomId, currentClientId);
+            }
+            break;
+
           case 'file-chunk':
           case 'file-complete':
-            if (currentRoomId && currentClientId) {
-              handleFileMessage(message, roomManager, currentRoomId);
+            if (currentRoomId && currentClientId && acceptedTransfers.has(message.transferId)) {
+              if (message.type === 'file-complete') {
+                acceptedTransfers.delete(message.transferId);
+              }
+              handleFileMessage(message, roomManager, currentRoomId, currentClientId);
             }
             break;
           
           // P2P Media Transfer Support - Simply relay messages without storing data
           case 'media_start':
           case 'media_chunk':
-          case 'media_end':
-            if (currentRoomId && currentClientId) {
-              // Simply relay the P2P media messages to other peers without processing
-              console.log(`📡 Relaying P2P media message: ${message.type} from ${currentClientId}`);
-              roomManager.broadcastToRoom(currentRoomId, message, currentClientId);
+          case 'media_end': {
+            if (!currentRoomId || !currentClientId) break;
+
+            // media_start and media_end carry the media ID in mediaURL, chunks in mediaId
+            const mediaId = message.type === 'media_chunk' ? message.mediaId : message.mediaURL;
+
+            if (message.type === 'media_start') {
+              if (!isContentAllowed(message.messageType)) break;
+              acceptedTransfers.add(mediaId);
+              roomManager.recordMessageSender(currentRoomId, mediaId, currentClientId);
+            } else if (!acceptedTransfers.has(mediaId)) {
+              break;
+            } else if (message.type === 'media_end') {
+              acceptedTransfers.delete(mediaId);
+            }
+
+            // Simply relay the P2P media messages to other peers, stamped with the sender's ID and settling the self-destruct time
+            console.log(`📡 Relaying P2P media message: ${message.type} from ${currentClientId}`);
+            if (message.type === 'media_chunk') {
+              roomManager.broadcastToRoom(currentRoomId, { ...message, clientId: currentClientId }, currentClientId);
+            } else {
+              const ttl = resolveMessageTtl(roomManager, currentRoomId, message.ttl);
+              roomManager.broadcastToRoom(currentRoomId, { ...message, clientId: currentClientId, ttl }, currentClientId);
             }
             break;
+          }
           
           case 'offer':
           case 'answer':
           case 'ice-candidate':
             handleSignaling(message, roomManager);
             break;
-          
-          default:
-            ws.send(JSON.stringify({ 
-              type: 'error', 
-              message: 'Unknown message type: ' + message.type 
-            }));
+
+          // Typing and presence are relayed as-is, stamped with the sender's ID
+          case 'typing-start':
+          case 'typing-stop':
+            if (currentRoomId && currentClientId) {
+              roomManager.broadcastToRoom(currentRoomId, {
+                type: message.type,
+                clientId: currentClientId
+              }, currentClientId);
+            }
+            break;
+
+          case 'presence':
+            if (!currentRoomId || !currentClientId) break;
+
+            roomManager.broadcastToRoom(currentRoomId, {
+              type: 'presence',
+              clientId: currentClientId,
+              state: message.state
+            }, currentClientId);
+            break;
+
+          case 'message-edit':
+          case 'message-delete':
+            if (currentRoomId && currentClientId) {
+              handleMessageChange(message, currentRoomId, currentClientId);
+            }
+            break;
+
+          // Reactions are relayed to everyone, stamped with the reacting client's ID.
+          // Messages sent over data channels never reach the server, so reactions
+          // to messages it has no record of are relayed too.
+          case 'reaction':
+            if (!currentRoomId || !currentClientId) break;
+
+            roomManager.broadcastToRoom(currentRoomId, {
+              type: 'reaction',
+              clientId: currentClientId,
+              messageId: message.messageId,
+              emoji: message.emoji,
+              action: message.action
+            }, currentClientId);
+            break;
+
+          // Receipts go only to the sender of the message they acknowledge
+          case 'receipt':
+            if (!currentRoomId || !currentClientId) break;
+
+            roomManager.sendToClient(currentRoomId, message.to, {
+              type: 'receipt',
+              clientId: currentClientId,
+              messageId: message.messageId,
+              status: message.status
+            });
+            break;
+
+          case 'ping':
+            ws.send(JSON.stringify({ type: 'pong' }));
+            break;
+
+          case 'extend-room':
+            if (currentRoomId && currentClientId && !roomManager.extendRoom(currentRoomId, currentClientId)) {
+              ws.send(JSON.stringify({ 
+                type: 'error', 
+                message: 'This room cannot be extended any further' 
+              }));
+            }
+            break;
+
+          case 'kick':
+          case 'ban':
+          case 'admit':
+          case 'deny':
+          case 'lock-room':
+          case 'transfer-ownership':
+            if (currentRoomId && currentClientId) {
+              handleOwnerAction(message, roomManager, currentRoomId, currentClientId);
+            }
+            break;
         }
 
       } catch (error) {
@@ -155,16 +371,34 @@ export function setupWebSocketHandler(wss: WebSocketServer, roomManager: RoomMan
       }
     });
 
-    ws.on('close', () => {
+    ws.on('close', (code) => {
       console.log('WebSocket connection closed');
+      rateLimiter.closeSocket(ip);
+      if (pendingRoomId && pendingClientId) {
+        roomManager.removePendingClient(pendingRoomId, pendingClientId);
+      }
+
       if (currentRoomId && currentClientId) {
-        roomManager.removeClientFromRoom(currentRoomId, currentClientId);
-        
-        // Notify other peers that this client left
-        roomManager.broadcastToRoom(currentRoomId, {
-          type: 'peer-left',
-          clientId: currentClientId
-        }, currentClientId);
+        const roomId = currentRoomId;
+        const clientId = currentClientId;
+
+        // The client already resumed on a newer connection
+        if (!roomManager.isClientConnection(roomId, clientId, ws)) return;
+
+        const leave = () => {
+          roomManager.removeClientFromRoom(roomId, clientId);
+          
+          // Notify other peers that this client left
+          roomManager.broadcastToRoom(roomId, {
+            type: 'peer-left',
+            clientId
+          }, clientId);
+        };
+
+        // Clients that leave on purpose close normally; anyone else gets a grace period to resume
+        if (code === 1000 || !roomManager.detachClient(roomId, clientId, leave)) {
+          leave();
+        }
       }
     });
 
@@ -172,27 +406,69 @@ export function setupWebSocketHandler(wss: WebSocketServer, roomManager: RoomMan
       console.error('WebSocket error:', error);
     });
 
-    function handleInit(message: WebSocketMessage, ws: WebSocket, roomManager: RoomManager) {
-      const { roomId, clientId } = message;
-      
-      if (!roomId || !clientId) {
+    // Checks a message or MIME type against the room's allowed content and tells
+    // the sender when it is rejected
+    function isContentAllowed(type?: string, messageId?: string): boolean {
+      const contentType = getContentType(type);
+      if (currentRoomId && roomManager.isContentAllowed(currentRoomId, contentType)) {
+        return true;
+      }
+
+      ws.send(JSON.stringify({
+        type: 'error',
+        message: `${contentType} messages are not allowed in this room`,
+        ...(messageId ? { messageId } : {})
+      }));
+      return false;
+    }
+
+    // Binary frames are only ever media chunks, relayed without being parsed as JSON
+    function handleMediaFrame(frame: Buffer) {
+      if (!protocol.capabilities.has('binary-media')) {
         ws.send(JSON.stringify({ 
           type: 'error', 
-          message: 'Room ID and client ID are required' 
+          code: ErrorCode.CAPABILITY_NOT_NEGOTIATED,
+          message: 'Binary frames need the binary-media capability, which was not negotiated' 
         }));
         return;
       }
 
-      // Validate input
-      if (typeof roomId !== 'string' || typeof clientId !== 'string') {
+      const chunk = decodeMediaChunkFrame(frame);
+      if (!chunk) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          code: ErrorCode.INVALID_MESSAGE,
+          message: 'Malformed media frame' 
+        }));
+        return;
+      }
+
+      // Like JSON chunks, frames only belong to transfers the sender started
+      if (currentRoomId && currentClientId && acceptedTransfers.has(chunk.mediaId)) {
+        roomManager.broadcastMediaFrame(currentRoomId, frame, currentClientId);
+      }
+    }
+
+    async function handleInit(message: ClientMessageOf<'init'>, ws: WebSocket, roomManager: RoomManager) {
+      const { roomId, clientId } = message;
+
+      try {
+        protocol = negotiateProtocol(message.protocolVersion, message.capabilities);
+      } catch (error) {
+        if (!(error instanceof ProtocolError)) throw error;
+
         ws.send(JSON.stringify({ 
           type: 'error', 
-          message: 'Invalid room ID or client ID format' 
+          code: error.code,
+          message: error.message,
+          supportedVersions: { min: MIN_PROTOCOL_VERSION, max: PROTOCOL_VERSION }
         }));
+        ws.close(CloseCode.UNSUPPORTED_PROTOCOL, error.message);
         return;
       }
+      roomManager.setConnectionProtocol(ws, protocol);
 
-      const room = roomManager.getRoom(roomId);
+      const room = roomManager.getRoom(roomManager.normalizeRoomId(roomId));
       if (!room) {
         ws.send(JSON.stringify({ 
           type: 'error', 
@@ -201,18 +477,134 @@ export function setupWebSocketHandler(wss: WebSocketServer, roomManager: RoomMan
         return;
       }
 
+      if (roomManager.isRoomExpired(room.id)) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          message: 'Room has expired' 
+        }));
+        return;
+      }
+
+      // A valid token proves the client already passed the checks below
+      if (message.resumeToken && !roomManager.isBanned(room.id, clientId) &&
+          roomManager.resumeClient(room.id, clientId, message.resumeToken, ws)) {
+        resumeRoom(room.id, clientId, message.backlogCursor);
+        return;
+      }
+
+      // An ID that has been used in the room belongs to the client admitted under it,
+      // whether it is still connected or has left
+      if (roomManager.isClientIdClaimed(room.id, clientId) &&
+          !roomManager.verifyIdentityToken(room.id, clientId, message.identityToken)) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          code: ErrorCode.CLIENT_ID_TAKEN,
+          message: 'Client ID is taken in this room' 
+        }));
+        ws.close(CloseCode.CLIENT_ID_TAKEN, 'Client ID is taken in this room');
+        return;
+      }
+
+      // Another connection still holds the slot
+      if (roomManager.isClientPresent(room.id, clientId)) {
+        roomManager.takeOverClient(room.id, clientId, ws);
+        resumeRoom(room.id, clientId, message.backlogCursor);
+        return;
+      }
+
+      if (roomManager.requiresPassphrase(room.id)) {
+        const isValid = await roomManager.checkPassphrase(room.id, message.passphrase);
+        // The socket may have gone away while the passphrase was being checked
+        if (ws.readyState !== WebSocket.OPEN) return;
+
+        if (!isValid) {
+          ws.send(JSON.stringify({ 
+            type: 'error', 
+            message: message.passphrase ? 'Incorrect passphrase' : 'Passphrase required' 
+          }));
+          return;
+        }
+      }
+
+      if (roomManager.isBanned(room.id, clientId)) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          message: 'You have been banned from this room' 
+        }));
+        return;
+      }
+
+      if (!room.clients.has(clientId) && roomManager.isLocked(room.id)) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          message: 'Room is locked' 
+        }));
+        return;
+      }
+
+      if (!room.clients.has(clientId) && roomManager.isRoomFull(room.id)) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          message: 'Room is full' 
+        }));
+        return;
+      }
+
+      if (pendingRoomId && pendingClientId) {
+        roomManager.removePendingClient(pendingRoomId, pendingClientId);
+        pendingRoomId = null;
+        pendingClientId = null;
+      }
+
+      // In lobby rooms everyone but the owner and already-admitted clients waits for approval
+      if (room.settings.lobby && room.ownerId && room.ownerId !== clientId && !room.clients.has(clientId)) {
+        const label = `Guest ${crypto.randomInt(1000, 10000)}`;
+        const expiresAt = roomManager.addPendingClient(room.id, clientId, {
+          label,
+          admit: () => {
+            pendingRoomId = null;
+            pendingClientId = null;
+            if (ws.readyState !== WebSocket.OPEN) return;
+
+            if (roomManager.isRoomFull(room.id)) {
+              ws.send(JSON.stringify({ type: 'error', message: 'Room is full' }));
+              ws.close(CloseCode.JOIN_DENIED, 'Room is full');
+              return;
+            }
+            joinRoom(room.id, clientId, message.backlogCursor);
+          },
+          deny: (reason) => {
+            pendingRoomId = null;
+            pendingClientId = null;
+            if (ws.readyState !== WebSocket.OPEN) return;
+
+            ws.send(JSON.stringify({ type: 'error', message: reason }));
+            ws.close(CloseCode.JOIN_DENIED, reason);
+          }
+        });
+
+        pendingRoomId = room.id;
+        pendingClientId = clientId;
+        ws.send(JSON.stringify({
+          type: 'waiting-approval',
+          label,
+          expiresAt
+        }));
+        console.log(`Client ${clientId} is waiting for approval to join room ${room.id}`);
+        return;
+      }
+
+      joinRoom(room.id, clientId, message.backlogCursor);
+    }
+
+    function joinRoom(roomId: string, clientId: string, backlogCursor?: number) {
       // Store current connection info
       currentRoomId = roomId;
       currentClientId = clientId;
 
       // Add client to room
-      const peers = roomManager.addClientToRoom(roomId, clientId, ws);
-      
-      // Send current peers to the new client
-      ws.send(JSON.stringify({
-        type: 'init-success',
-        peers: peers.filter(id => id !== clientId)
-      }));
+      roomManager.addClientToRoom(roomId, clientId, ws);
+      sendInitSuccess(roomId, clientId, false, backlogCursor);
 
       // Notify other peers about the new client
       roomManager.broadcastToRoom(roomId, {
@@ -223,10 +615,156 @@ export function setupWebSocketHandler(wss: WebSocketServer, roomManager: RoomMan
       console.log(`Client ${clientId} joined room ${roomId}`);
     }
 
-    function handleSignaling(message: WebSocketMessage, roomManager: RoomManager) {
-      const { from, to, payload, type } = message;
+    // Peers never saw the client leave, so there is nothing to announce
+    function resumeRoom(roomId: string, clientId: string, backlogCursor?: number) {
+      if (pendingRoomId && pendingClientId) {
+        roomManager.removePendingClient(pendingRoomId, pendingClientId);
+        pendingRoomId = null;
+        pendingClientId = null;
+      }
+
+      currentRoomId = roomId;
+      currentClientId = clientId;
+      sendInitSuccess(roomId, clientId, true, backlogCursor);
+    }
+
+    function sendInitSuccess(roomId: string, clientId: string, resumed: boolean, backlogCursor?: number) {
+      const room = roomManager.getRoom(roomId)!;
+      const expiry = roomManager.getRoomExpiry(roomId)!;
+
+      // Send current peers to the client
+      ws.send(JSON.stringify({
+        type: 'init-success',
+        peers: roomManager.getRoomClients(roomId).filter(id => id !== clientId),
+        settings: room.settings,
+        ownerId: room.ownerId,
+        locked: room.locked,
+        // Relative, so clients do not depend on their clock matching the server's
+        expiry: { reason: expiry.reason, remaining: expiry.expiresAt - Date.now() },
+        // Without a token a dropped client leaves the room straight away, as before resuming existed
+        ...(protocol.capabilities.has('resume') ? { resumeToken: roomManager.issueResumeToken(roomId, clientId) } : {}),
+        identityToken: roomManager.issueIdentityToken(roomId, clientId),
+        resumed,
+        protocolVersion: protocol.version,
+        features: [...protocol.capabilities]
+      }));
+
+      // Whatever was sent since the client's cursor, or all of it for a first join
+      const backlog = supportsMessage(protocol, 'backlog') ? roomManager.getBacklog(roomId, backlogCursor) : [];
+      if (backlog.length > 0) {
+        ws.send(JSON.stringify({
+          type: 'backlog',
+          messages: backlog
+        }));
+      }
+
+      // The owner may have been away while clients were knocking
+      if (room.ownerId === clientId) {
+        roomManager.announcePendingClients(roomId);
+      }
+    }
+
+    // Edits and unsends of messages the server relayed are only accepted from
+    // the client that sent them. Messages sent over data channels (or before a
+    // restart) have no sender here, so those changes are relayed and receivers
+    // check the sender against the message they hold. Rejections name the
+    // message so the sender can undo the change it already showed.
+    function handleMessageChange(message: MessageChange, roomId: string, clientId: string) {
+      const isEdit = message.type === 'message-edit';
+      const senderId = roomManager.getMessageSender(roomId, message.messageId);
+      if (senderId && senderId !== clientId) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          message: 'You can only change your own messages',
+          messageId: message.messageId 
+        }));
+        return;
+      }
+
+      if (isEdit && !isContentAllowed('text', message.messageId)) return;
+
+      if (isEdit && message.content === undefined && message.envelope === undefined) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          code: ErrorCode.INVALID_MESSAGE,
+          message: 'An edit needs content or an envelope',
+          messageId: message.messageId 
+        }));
+        return;
+      }
+
+      roomManager.broadcastToRoom(roomId, {
+        type: message.type,
+        messageId: message.messageId,
+        clientId,
+        ...(isEdit && message.content !== undefined ? { content: message.content } : {}),
+        ...(isEdit ? { editedAt: Date.now() } : {}),
+        ...(isEdit && message.envelope !== undefined ? { envelope: message.envelope } : {})
+      }, clientId);
+    }
+
+    function handleOwnerAction(message: OwnerAction, roomManager: RoomManager, roomId: string, clientId: string) {
+      if (!roomManager.isOwner(roomId, clientId)) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          message: 'Only the room owner can do that' 
+        }));
+        return;
+      }
+
+      if (message.type === 'lock-room') {
+        roomManager.setLocked(roomId, message.locked !== false);
+        console.log(`Room ${roomId} ${message.locked !== false ? 'locked' : 'unlocked'} by ${clientId}`);
+        return;
+      }
+
+      const { targetId } = message;
+      if (!targetId || typeof targetId !== 'string' || targetId === clientId) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          message: 'Invalid target peer' 
+        }));
+        return;
+      }
+
+      if (message.type === 'admit' || message.type === 'deny') {
+        roomManager.resolvePendingClient(roomId, targetId, message.type === 'admit');
+        console.log(`Owner ${clientId} used ${message.type} on ${targetId} in room ${roomId}`);
+        return;
+      }
+
+      let found: boolean;
+      switch (message.type) {
+        case 'kick':
+          found = roomManager.disconnectClient(roomId, targetId, CloseCode.KICKED, 'Removed by the room owner');
+          break;
+
+        case 'ban':
+          // Banning works even if the peer already left, so it cannot rejoin
+          roomManager.banClient(roomId, targetId);
+          roomManager.disconnectClient(roomId, targetId, CloseCode.BANNED, 'Banned by the room owner');
+          found = true;
+          break;
+
+        default:
+          found = roomManager.setOwner(roomId, targetId);
+      }
+
+      if (!found) {
+        ws.send(JSON.stringify({ 
+          type: 'error', 
+          message: 'Peer not found in room' 
+        }));
+        return;
+      }
+
+      console.log(`Owner ${clientId} used ${message.type} on ${targetId} in room ${roomId}`);
+    }
+
+    function handleSignaling(message: SignalingMessage, roomManager: RoomManager) {
+      const { to, payload, type } = message;
       
-      if (!from || !to || !currentRoomId) {
+      if (!currentRoomId || !currentClientId) {
         ws.send(JSON.stringify({ 
           type: 'error', 
           message: 'Invalid signaling message' 
@@ -243,20 +781,13 @@ export function setupWebSocketHandler(wss: WebSocketServer, roomManager: RoomMan
         return;
       }
 
-      const targetWs = room.clients.get(to);
-      if (targetWs && targetWs.readyState === WebSocket.OPEN) {
-        try {
-          targetWs.send(JSON.stringify({
-            type,
-            from,
-            to,
-            payload
-          }));
-        } catch (error) {
-          console.error(`Error sending signaling message to ${to}:`, error);
-          room.clients.delete(to);
-        }
-      }
+      // The target may be connected to another server instance
+      roomManager.sendToClient(currentRoomId, to, {
+        type,
+        from: currentClientId,
+        to,
+        payload
+      });
     }
   });
 
@@ -0,0 +1,65 @@
+// Binary WebSocket frames carrying media chunks, so chunk data travels as raw
+// bytes instead of base64 inside JSON. Only clients that negotiated the
+// binary-media capability send or receive them; everyone else keeps using
+// JSON media_chunk messages.
+//
+// Layout, big-endian:
+//   u8   frame kind (FrameKind.MEDIA_CHUNK)
+//   u8   length of the media ID in bytes
+//   ...  media ID, UTF-8
+//   u32  chunk index
+//   u32  total chunks
+//   ...  chunk data
+
+export const FrameKind = {
+  MEDIA_CHUNK: 1
+} as const;
+
+export const MAX_FRAME_MEDIA_ID_LENGTH = 255;
+
+const FIXED_HEADER_SIZE = 2 + 4 + 4;
+
+export interface MediaChunkFrame {
+  mediaId: string;
+  chunkIndex: number;
+  totalChunks: number;
+  data: Uint8Array;
+}
+
+export function encodeMediaChunkFrame({ mediaId, chunkIndex, totalChunks, data }: MediaChunkFrame): Uint8Array {
+  const id = new TextEncoder().encode(mediaId);
+  if (id.length === 0 || id.length > MAX_FRAME_MEDIA_ID_LENGTH) {
+    throw new Error(`Media ID must be 1-${MAX_FRAME_MEDIA_ID_LENGTH} bytes`);
+  }
+
+  const frame = new Uint8Array(FIXED_HEADER_SIZE + id.length + data.length);
+  const view = new DataView(frame.buffer);
+  frame[0] = FrameKind.MEDIA_CHUNK;
+  frame[1] = id.length;
+  frame.set(id, 2);
+  view.setUint32(2 + id.length, chunkIndex);
+  view.setUint32(6 + id.length, totalChunks);
+  frame.set(data, FIXED_HEADER_SIZE + id.length);
+  return frame;
+}
+
+// Returns null for frames that are not well-formed media chunks. The chunk data
+// is a view into the frame, not a copy.
+export function decodeMediaChunkFrame(frame: Uint8Array): MediaChunkFrame | null {
+  if (frame.length < FIXED_HEADER_SIZE || frame[0] !== FrameKind.MEDIA_CHUNK) return null;
+
+  const idLength = frame[1];
+  if (idLength === 0 || frame.length < FIXED_HEADER_SIZE + idLength) return null;
+
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const chunkIndex = view.getUint32(2 + idLength);
+  const totalChunks = view.getUint32(6 + idLength);
+  if (totalChunks === 0 || chunkIndex >= totalChunks) return null;
+
+  return {
+    mediaId: new TextDecoder().decode(frame.subarray(2, 2 + idLength)),
+    chunkIndex,
+    totalChunks,
+    data: frame.subarray(FIXED_HEADER_SIZE + idLength)
+  };
+}
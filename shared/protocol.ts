@@ -0,0 +1,462 @@
+// The WebSocket protocol spoken between the server and its clients, shared by
+// both sides. Every message type has a schema; the server validates what
+// clients send before dispatching it and the web client validates what the
+// server sends. The TypeScript types are derived from the schemas, and
+// buildProtocolJsonSchema() exports them for clients in other languages.
+
+import { Infer, JsonSchema, ObjectSchema, ValidationError, validate } from './schema.js';
+
+export type { ValidationError } from './schema.js';
+
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 1;
+
+export const CAPABILITIES = [
+  'chat',
+  'media',
+  'files',
+  'webrtc',
+  'resume',
+  'backlog',
+  'room-expiry',
+  'typing',
+  'presence',
+  'receipts',
+  'message-changes',
+  'reactions',
+  'binary-media'
+] as const;
+
+export type Capability = typeof CAPABILITIES[number];
+
+// Message types not listed here (init, owner controls, peer events, errors) are always allowed.
+// binary-media covers binary media chunk frames (see mediaFrame.ts) rather than a message type.
+export const MESSAGE_CAPABILITIES: Record<string, Capability> = {
+  'message': 'chat',
+  'media_start': 'media',
+  'media_chunk': 'media',
+  'media_end': 'media',
+  'file-start': 'files',
+  'file-offer': 'files',
+  'file-chunk': 'files',
+  'file-complete': 'files',
+  'offer': 'webrtc',
+  'answer': 'webrtc',
+  'ice-candidate': 'webrtc',
+  'backlog': 'backlog',
+  'extend-room': 'room-expiry',
+  'room-expiring': 'room-expiry',
+  'room-extended': 'room-expiry',
+  'typing-start': 'typing',
+  'typing-stop': 'typing',
+  'presence': 'presence',
+  'receipt': 'receipts',
+  'message-edit': 'message-changes',
+  'message-delete': 'message-changes',
+  'reaction': 'reactions'
+};
+
+// WebSocket close codes the server uses when it removes a client from a room
+export const CloseCode = {
+  KICKED: 4001,
+  BANNED: 4002,
+  JOIN_DENIED: 4003,
+  ROOM_EXPIRED: 4004,
+  SESSION_RESUMED: 4005,
+  UNSUPPORTED_PROTOCOL: 4006,
+  // The client could not keep up with the room's traffic; it may reconnect
+  SLOW_CONSUMER: 4007,
+  // The client ID was used in the room before and the client could not prove it is its own
+  CLIENT_ID_TAKEN: 4008
+} as const;
+
+// Error codes sent alongside the message of protocol errors
+export const ErrorCode = {
+  UNSUPPORTED_PROTOCOL_VERSION: 'UNSUPPORTED_PROTOCOL_VERSION',
+  INVALID_CAPABILITIES: 'INVALID_CAPABILITIES',
+  UNSUPPORTED_MESSAGE_TYPE: 'UNSUPPORTED_MESSAGE_TYPE',
+  CAPABILITY_NOT_NEGOTIATED: 'CAPABILITY_NOT_NEGOTIATED',
+  INVALID_MESSAGE: 'INVALID_MESSAGE',
+  CLIENT_ID_TAKEN: 'CLIENT_ID_TAKEN',
+  RATE_LIMITED: 'RATE_LIMITED'
+} as const;
+
+export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode];
+
+export const MAX_MESSAGE_ID_LENGTH = 128;
+export const MAX_EMOJI_LENGTH = 32; // UTF-16 code units; enough for ZWJ sequences and skin tones
+export const MAX_QUOTE_SNIPPET_LENGTH = 200;
+
+function object<
+  const P extends Record<string, JsonSchema>,
+  const R extends readonly (keyof P & string)[] = []
+>(properties: P, required?: R, description?: string) {
+  return {
+    type: 'object',
+    properties,
+    required: required ?? [],
+    ...(description ? { description } : {})
+  } as { type: 'object'; properties: P; required: R; description?: string };
+}
+
+function message<
+  const T extends string,
+  const P extends Record<string, JsonSchema>,
+  const R extends readonly (keyof P & string)[] = []
+>(type: T, properties: P, required?: R) {
+  return {
+    type: 'object',
+    properties: { type: { type: 'string', const: type }, ...properties },
+    required: ['type', ...(required ?? [])]
+  } as { type: 'object'; properties: { type: { type: 'string'; const: T } } & P; required: readonly ['type', ...R] };
+}
+
+const ID = { type: 'string', minLength: 1 } as const;
+const MESSAGE_ID = { type: 'string', minLength: 1, maxLength: MAX_MESSAGE_ID_LENGTH } as const;
+const TIMESTAMP = { type: 'number', minimum: 0 } as const;
+const COUNT = { type: 'integer', minimum: 0 } as const;
+const TTL = {
+  type: 'number',
+  description: 'Self-destruct time in milliseconds, counted from when a client receives the message'
+} as const;
+const ENVELOPE = {
+  type: 'string',
+  description: 'Client-encrypted copy of a chat message, kept in the room\'s backlog'
+} as const;
+
+export const CONTENT_TYPE_SCHEMA = { type: 'string', enum: ['text', 'image', 'video', 'audio', 'file'] } as const;
+export const PRESENCE_STATE_SCHEMA = { type: 'string', enum: ['active', 'idle', 'backgrounded'] } as const;
+
+// A compact copy of the message being replied to, so it can be shown even if the original is not on screen
+export const MESSAGE_QUOTE_SCHEMA = {
+  ...object({
+    messageId: MESSAGE_ID,
+    senderId: { type: 'string', minLength: 1, maxLength: MAX_MESSAGE_ID_LENGTH },
+    snippet: {
+      type: 'string',
+      maxLength: MAX_QUOTE_SNIPPET_LENGTH,
+      description: 'Start of the original text; empty for media, which is shown by its messageType'
+    },
+    messageType: { type: 'string', enum: ['text', 'image', 'video', 'audio'] }
+  }, ['messageId', 'senderId', 'snippet', 'messageType']),
+  additionalProperties: false
+} as const;
+
+// Chosen by the room creator and enforced by the server. Times are in milliseconds.
+export const ROOM_SETTINGS_SCHEMA = object({
+  maxClients: { type: 'integer', minimum: 1 },
+  expiryTime: { type: 'number', description: 'Idle time after which the room is removed' },
+  maxLifetime: {
+    anyOf: [{ type: 'number' }, { type: 'null' }],
+    description: 'Time since creation after which the room is removed regardless of activity'
+  },
+  allowedContent: { type: 'array', items: CONTENT_TYPE_SCHEMA },
+  lobby: { type: 'boolean', description: 'New clients wait in a lobby until the owner admits them' },
+  backlog: {
+    type: 'boolean',
+    description: 'Recent encrypted chat messages are replayed to clients that join late or reconnect'
+  },
+  messageTtl: {
+    anyOf: [{ type: 'number' }, { type: 'null' }],
+    description: 'Self-destruct time for messages whose sender does not pick one'
+  }
+}, ['maxClients', 'expiryTime', 'maxLifetime', 'allowedContent', 'lobby', 'backlog', 'messageTtl']);
+
+export type ContentType = Infer<typeof CONTENT_TYPE_SCHEMA>;
+export type PresenceState = Infer<typeof PRESENCE_STATE_SCHEMA>;
+export type MessageQuote = Infer<typeof MESSAGE_QUOTE_SCHEMA>;
+export type RoomSettings = Infer<typeof ROOM_SETTINGS_SCHEMA>;
+
+// Fields shared by messages that are relayed to the rest of the room
+const CHAT_FIELDS = {
+  roomId: ID,
+  clientId: ID,
+  messageId: MESSAGE_ID,
+  content: { type: 'string' },
+  message: { type: 'string', description: 'Older name for content' },
+  messageType: { type: 'string', description: 'text, or the MIME type of media' },
+  mediaURL: { type: 'string' },
+  fileName: { type: 'string' },
+  fileSize: COUNT,
+  timestamp: TIMESTAMP,
+  replyTo: MESSAGE_QUOTE_SCHEMA,
+  ttl: TTL,
+  envelope: ENVELOPE
+} as const;
+
+// media_start and media_end carry the media ID in mediaURL, chunks in mediaId
+const MEDIA_FIELDS = {
+  roomId: ID,
+  clientId: ID,
+  mediaURL: ID,
+  messageType: { type: 'string', description: 'MIME type of the media' },
+  fileName: { type: 'string' },
+  fileSize: COUNT,
+  ttl: TTL
+} as const;
+
+const MEDIA_CHUNK_FIELDS = {
+  roomId: ID,
+  clientId: ID,
+  mediaId: ID,
+  chunkIndex: COUNT,
+  totalChunks: { type: 'integer', minimum: 1 },
+  chunkData: { type: 'string', description: 'Base64 encoded' }
+} as const;
+
+const FILE_FIELDS = {
+  roomId: ID,
+  clientId: ID,
+  transferId: ID,
+  fileName: { type: 'string' },
+  fileType: { type: 'string' },
+  fileSize: COUNT,
+  fileData: { type: 'string' },
+  chunkIndex: COUNT,
+  totalChunks: { type: 'integer', minimum: 1 },
+  chunkData: { type: 'string' }
+} as const;
+
+const SIGNALING_FIELDS = {
+  from: ID,
+  to: ID,
+  payload: { description: 'Session description or ICE candidate, passed through untouched' }
+} as const;
+
+const OWNER_ACTION_FIELDS = { targetId: ID } as const;
+
+// Everything a client may send
+export const CLIENT_MESSAGE_SCHEMAS = {
+  'init': message('init', {
+    roomId: ID,
+    clientId: ID,
+    // Checked by negotiation, which answers with its own error codes
+    protocolVersion: { description: 'Missing for clients that predate negotiation' },
+    capabilities: { description: 'The capabilities the client understands' },
+    passphrase: { type: 'string', description: 'Required for passphrase-protected rooms' },
+    resumeToken: { type: 'string', description: 'Takes back a dropped connection\'s slot' },
+    identityToken: { type: 'string', description: 'Proves the client ID is the client\'s own; required for IDs used in the room before' },
+    backlogCursor: { type: 'integer', description: 'Sequence number of the last backlog message the client has seen' }
+  }, ['roomId', 'clientId']),
+
+  // The server stamps relayed messages with the sender's ID, so roomId, clientId and
+  // from are accepted from older clients but ignored
+  'message': message('message', CHAT_FIELDS),
+
+  'media_start': message('media_start', MEDIA_FIELDS, ['mediaURL']),
+  'media_chunk': message('media_chunk', MEDIA_CHUNK_FIELDS, ['mediaId', 'chunkIndex', 'totalChunks', 'chunkData']),
+  'media_end': message('media_end', MEDIA_FIELDS, ['mediaURL']),
+
+  'file-start': message('file-start', FILE_FIELDS, ['transferId']),
+  'file-offer': message('file-offer', FILE_FIELDS, ['transferId']),
+  'file-chunk': message('file-chunk', FILE_FIELDS, ['transferId']),
+  'file-complete': message('file-complete', FILE_FIELDS, ['transferId']),
+
+  'offer': message('offer', SIGNALING_FIELDS, ['to']),
+  'answer': message('answer', SIGNALING_FIELDS, ['to']),
+  'ice-candidate': message('ice-candidate', SIGNALING_FIELDS, ['to']),
+
+  'typing-start': message('typing-start', {}),
+  'typing-stop': message('typing-stop', {}),
+  'presence': message('presence', { state: PRESENCE_STATE_SCHEMA }, ['state']),
+
+  // In backlog rooms the new text is only inside the envelope
+  'message-edit': message('message-edit', {
+    messageId: MESSAGE_ID,
+    content: { type: 'string', minLength: 1 },
+    envelope: ENVELOPE
+  }, ['messageId']),
+  'message-delete': message('message-delete', { messageId: MESSAGE_ID }, ['messageId']),
+  'reaction': message('reaction', {
+    messageId: MESSAGE_ID,
+    emoji: { type: 'string', minLength: 1, maxLength: MAX_EMOJI_LENGTH },
+    action: { type: 'string', enum: ['add', 'remove'] }
+  }, ['messageId', 'emoji', 'action']),
+  // Goes only to the sender of the message it acknowledges
+  'receipt': message('receipt', {
+    messageId: MESSAGE_ID,
+    status: { type: 'string', enum: ['delivered', 'read'] },
+    to: ID
+  }, ['messageId', 'status', 'to']),
+
+  'extend-room': message('extend-room', {}),
+
+  // Application-level heartbeat for clients that cannot send WebSocket pings, e.g. browsers
+  'ping': message('ping', {}),
+
+  // Owner controls
+  'kick': message('kick', OWNER_ACTION_FIELDS, ['targetId']),
+  'ban': message('ban', OWNER_ACTION_FIELDS, ['targetId']),
+  'admit': message('admit', OWNER_ACTION_FIELDS, ['targetId']),
+  'deny': message('deny', OWNER_ACTION_FIELDS, ['targetId']),
+  'transfer-ownership': message('transfer-ownership', OWNER_ACTION_FIELDS, ['targetId']),
+  'lock-room': message('lock-room', { locked: { type: 'boolean' } })
+} satisfies Record<string, ObjectSchema>;
+
+const ROOM_EXPIRY_REASON = { type: 'string', enum: ['idle', 'lifetime'] } as const;
+
+const BACKLOG_MESSAGE_SCHEMA = object({
+  seq: COUNT,
+  messageId: MESSAGE_ID,
+  clientId: ID,
+  envelope: ENVELOPE,
+  timestamp: TIMESTAMP,
+  ttl: { type: 'number', description: 'Self-destruct time the message has left' }
+}, ['seq', 'messageId', 'clientId', 'envelope', 'timestamp']);
+
+// Sequence number of relayed chat in backlog rooms, for the client's backlog cursor
+const SEQ = { seq: COUNT } as const;
+
+// Everything the server may send. Relayed messages are stamped with the sender's clientId.
+export const SERVER_MESSAGE_SCHEMAS = {
+  'init-success': message('init-success', {
+    peers: { type: 'array', items: ID },
+    settings: ROOM_SETTINGS_SCHEMA,
+    ownerId: { anyOf: [ID, { type: 'null' }] },
+    locked: { type: 'boolean' },
+    expiry: object({
+      reason: ROOM_EXPIRY_REASON,
+      remaining: { type: 'number', description: 'Relative, so clients do not depend on their clock' }
+    }, ['reason', 'remaining']),
+    resumeToken: { type: 'string' },
+    identityToken: { type: 'string' },
+    resumed: { type: 'boolean' },
+    protocolVersion: { type: 'integer' },
+    features: { type: 'array', items: { type: 'string' } }
+  }, ['peers', 'settings']),
+
+  'error': message('error', {
+    message: { type: 'string' },
+    code: { type: 'string' },
+    errors: {
+      type: 'array',
+      items: object({ path: { type: 'string' }, message: { type: 'string' } }, ['path', 'message']),
+      description: 'Field-level problems with an invalid message'
+    },
+    supportedVersions: object({ min: { type: 'integer' }, max: { type: 'integer' } }, ['min', 'max']),
+    retryAfter: { type: 'integer', description: 'Seconds until a rate-limited message would be accepted' },
+    messageId: { type: 'string', description: 'The message a rejected reaction, edit or unsend referred to' }
+  }, ['message']),
+
+  'backlog': message('backlog', { messages: { type: 'array', items: BACKLOG_MESSAGE_SCHEMA } }, ['messages']),
+
+  'room-expiring': message('room-expiring', {
+    remaining: { type: 'number' },
+    expiresAt: TIMESTAMP,
+    reason: ROOM_EXPIRY_REASON
+  }, ['remaining']),
+  'room-extended': message('room-extended', { expiresAt: TIMESTAMP, extendedBy: ID }),
+  'owner-changed': message('owner-changed', { ownerId: ID }, ['ownerId']),
+  'room-locked': message('room-locked', { locked: { type: 'boolean' } }, ['locked']),
+
+  // Lobby: waiting-approval goes to the waiting client, the rest only to the room owner
+  'waiting-approval': message('waiting-approval', { label: { type: 'string' }, expiresAt: TIMESTAMP }, ['label', 'expiresAt']),
+  'join-request': message('join-request', {
+    clientId: ID,
+    label: { type: 'string' },
+    expiresAt: TIMESTAMP
+  }, ['clientId', 'label', 'expiresAt']),
+  'join-request-resolved': message('join-request-resolved', {
+    clientId: ID,
+    outcome: { type: 'string', enum: ['admitted', 'denied', 'timeout', 'cancelled'] }
+  }, ['clientId', 'outcome']),
+
+  'pong': message('pong', {}),
+
+  'peer-joined': message('peer-joined', { clientId: ID }, ['clientId']),
+  'peer-left': message('peer-left', { clientId: ID }, ['clientId']),
+
+  'offer': message('offer', SIGNALING_FIELDS, ['from', 'to']),
+  'answer': message('answer', SIGNALING_FIELDS, ['from', 'to']),
+  'ice-candidate': message('ice-candidate', SIGNALING_FIELDS, ['from', 'to']),
+
+  'message': message('message', { ...CHAT_FIELDS, ...SEQ }, ['clientId']),
+
+  'media_start': message('media_start', MEDIA_FIELDS, ['clientId', 'mediaURL']),
+  'media_chunk': message('media_chunk', MEDIA_CHUNK_FIELDS, ['clientId', 'mediaId', 'chunkIndex', 'totalChunks', 'chunkData']),
+  'media_end': message('media_end', MEDIA_FIELDS, ['clientId', 'mediaURL']),
+
+  'file-start': message('file-start', FILE_FIELDS, ['clientId', 'transferId']),
+  'file-offer': message('file-offer', FILE_FIELDS, ['clientId', 'transferId']),
+  'file-chunk': message('file-chunk', FILE_FIELDS, ['clientId', 'transferId']),
+  'file-complete': message('file-complete', FILE_FIELDS, ['clientId', 'transferId']),
+  // Sent by the server when it had to drop one of the transfer's chunks; the rest are not sent
+  'transfer-aborted': message('transfer-aborted', {
+    clientId: ID,
+    transferId: { type: 'string', minLength: 1, description: 'Media ID or file transfer ID' }
+  }, ['clientId', 'transferId']),
+
+  'typing-start': message('typing-start', { clientId: ID }, ['clientId']),
+  'typing-stop': message('typing-stop', { clientId: ID }, ['clientId']),
+  'presence': message('presence', { clientId: ID, state: PRESENCE_STATE_SCHEMA }, ['clientId', 'state']),
+
+  'message-edit': message('message-edit', {
+    clientId: ID,
+    messageId: MESSAGE_ID,
+    content: { type: 'string', minLength: 1 },
+    editedAt: TIMESTAMP,
+    envelope: ENVELOPE,
+    ...SEQ
+  }, ['clientId', 'messageId']),
+  'message-delete': message('message-delete', { clientId: ID, messageId: MESSAGE_ID, ...SEQ }, ['clientId', 'messageId']),
+  'reaction': message('reaction', {
+    clientId: ID,
+    messageId: MESSAGE_ID,
+    emoji: { type: 'string', minLength: 1, maxLength: MAX_EMOJI_LENGTH },
+    action: { type: 'string', enum: ['add', 'remove'] }
+  }, ['clientId', 'messageId', 'emoji', 'action']),
+  'receipt': message('receipt', {
+    clientId: ID,
+    messageId: MESSAGE_ID,
+    status: { type: 'string', enum: ['delivered', 'read'] }
+  }, ['clientId', 'messageId', 'status'])
+} satisfies Record<string, ObjectSchema>;
+
+type MessagesOf<Schemas> = { [T in keyof Schemas]: Infer<Schemas[T]> }[keyof Schemas];
+
+export type ClientMessage = MessagesOf<typeof CLIENT_MESSAGE_SCHEMAS>;
+export type ServerMessage = MessagesOf<typeof SERVER_MESSAGE_SCHEMAS>;
+export type ClientMessageOf<T extends ClientMessage['type']> = Extract<ClientMessage, { type: T }>;
+export type ServerMessageOf<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+export type ValidationResult<M> = { ok: true; message: M } | { ok: false; errors: ValidationError[] };
+
+function validateMessage<M>(schemas: Record<string, ObjectSchema>, value: unknown): ValidationResult<M> {
+  const type = typeof value === 'object' && value !== null ? (value as { type?: unknown }).type : undefined;
+  if (typeof type !== 'string') {
+    return { ok: false, errors: [{ path: '/type', message: 'must be a string' }] };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(schemas, type)) {
+    return { ok: false, errors: [{ path: '/type', message: `"${type}" is not a known message type` }] };
+  }
+
+  const errors = validate(schemas[type], value);
+  return errors.length === 0 ? { ok: true, message: value as M } : { ok: false, errors };
+}
+
+export function isClientMessageType(type: string): type is ClientMessage['type'] {
+  return Object.prototype.hasOwnProperty.call(CLIENT_MESSAGE_SCHEMAS, type);
+}
+
+export function validateClientMessage(value: unknown): ValidationResult<ClientMessage> {
+  return validateMessage<ClientMessage>(CLIENT_MESSAGE_SCHEMAS, value);
+}
+
+export function validateServerMessage(value: unknown): ValidationResult<ServerMessage> {
+  return validateMessage<ServerMessage>(SERVER_MESSAGE_SCHEMAS, value);
+}
+
+// The whole protocol as a JSON Schema document, for generating clients in other languages
+export function buildProtocolJsonSchema() {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'Silento WebSocket protocol',
+    $comment: `Protocol version ${PROTOCOL_VERSION}; servers accept versions ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`,
+    $defs: {
+      Capability: { type: 'string', enum: CAPABILITIES },
+      ClientMessage: { oneOf: Object.values(CLIENT_MESSAGE_SCHEMAS) },
+      ServerMessage: { oneOf: Object.values(SERVER_MESSAGE_SCHEMAS) }
+    }
+  };
+}
@@ -0,0 +1,170 @@
+// The subset of JSON Schema the protocol is written in, and a validator for it.
+// Schemas written with these types are valid JSON Schema (draft 2020-12), so
+// they can be exported as-is for clients in other languages.
+
+export interface StringSchema {
+  type: 'string';
+  enum?: readonly string[];
+  const?: string;
+  minLength?: number;
+  maxLength?: number;
+  description?: string;
+}
+
+export interface NumberSchema {
+  type: 'number' | 'integer';
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+}
+
+export interface BooleanSchema {
+  type: 'boolean';
+  description?: string;
+}
+
+export interface NullSchema {
+  type: 'null';
+}
+
+export interface ArraySchema {
+  type: 'array';
+  items: JsonSchema;
+  maxItems?: number;
+  description?: string;
+}
+
+export interface ObjectSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+  required?: readonly string[];
+  // Unknown properties are allowed unless this is false, so older peers can ignore newer fields
+  additionalProperties?: boolean | JsonSchema;
+  description?: string;
+}
+
+export interface AnyOfSchema {
+  anyOf: readonly JsonSchema[];
+  description?: string;
+}
+
+// Matches any value
+export interface AnySchema {
+  description?: string;
+}
+
+export type JsonSchema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | NullSchema
+  | ArraySchema
+  | ObjectSchema
+  | AnyOfSchema
+  | AnySchema;
+
+export interface ValidationError {
+  // JSON Pointer to the offending value, e.g. /replyTo/messageId
+  path: string;
+  message: string;
+}
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const escapePointer = (key: string) => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+// Returns every problem found, so clients can fix all of them at once
+export function validate(schema: JsonSchema, value: unknown, path = ''): ValidationError[] {
+  if ('anyOf' in schema) {
+    const results = schema.anyOf.map(option => validate(option, value, path));
+    return results.some(errors => errors.length === 0) ? [] : results[0];
+  }
+
+  if (!('type' in schema)) return [];
+
+  const fail = (message: string): ValidationError[] => [{ path: path || '/', message }];
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return fail('must be a string');
+      if (schema.const !== undefined && value !== schema.const) return fail(`must be "${schema.const}"`);
+      if (schema.enum && !schema.enum.includes(value)) return fail(`must be one of: ${schema.enum.join(', ')}`);
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return fail(`must be at most ${schema.maxLength} characters`);
+      }
+      return [];
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail('must be a number');
+      if (schema.type === 'integer' && !Number.isInteger(value)) return fail('must be an integer');
+      if (schema.minimum !== undefined && value < schema.minimum) return fail(`must be at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) return fail(`must be at most ${schema.maximum}`);
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : fail('must be a boolean');
+
+    case 'null':
+      return value === null ? [] : fail('must be null');
+
+    case 'array':
+      if (!Array.isArray(value)) return fail('must be an array');
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return fail(`must have at most ${schema.maxItems} items`);
+      }
+      return value.flatMap((item, index) => validate(schema.items, item, `${path}/${index}`));
+
+    case 'object': {
+      if (!isPlainObject(value)) return fail('must be an object');
+
+      const errors: ValidationError[] = [];
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) {
+          errors.push({ path: `${path}/${escapePointer(key)}`, message: 'is required' });
+        }
+      }
+
+      for (const [key, item] of Object.entries(value)) {
+        if (item === undefined) continue;
+
+        const propertySchema = schema.properties[key];
+        const itemPath = `${path}/${escapePointer(key)}`;
+        if (propertySchema) {
+          errors.push(...validate(propertySchema, item, itemPath));
+        } else if (schema.additionalProperties === false) {
+          errors.push({ path: itemPath, message: 'is not allowed' });
+        } else if (typeof schema.additionalProperties === 'object') {
+          errors.push(...validate(schema.additionalProperties, item, itemPath));
+        }
+      }
+      return errors;
+    }
+  }
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferObject<P, R> = Simplify<
+  { -readonly [K in keyof P as K extends R ? K : never]: Infer<P[K]> } &
+  { -readonly [K in keyof P as K extends R ? never : K]?: Infer<P[K]> }
+>;
+
+// The TypeScript type of the values a schema accepts, so message types are
+// derived from their schemas instead of being kept in sync by hand
+export type Infer<S> =
+  S extends { anyOf: readonly (infer Option)[] } ? Infer<Option> :
+  S extends { const: infer Value } ? Value :
+  S extends { enum: readonly (infer Value)[] } ? Value :
+  S extends { type: 'string' } ? string :
+  S extends { type: 'number' | 'integer' } ? number :
+  S extends { type: 'boolean' } ? boolean :
+  S extends { type: 'null' } ? null :
+  S extends { type: 'array'; items: infer Items } ? Infer<Items>[] :
+  S extends { type: 'object'; properties: infer P } ?
+    InferObject<P, S extends { required: readonly (infer R)[] } ? R : never> :
+  unknown;
@@ -8,6 +8,7 @@ type AppState = 'loading' | 'home' | 'create' | 'join' | 'chat';
 interface RoomInfo {
   roomId: string;
   clientId: string;
+  passphrase?: string;
 }
 
 // Particle Background Component
@@ -33,14 +34,18 @@ const ParticleBackground = () => {
 function App() {
   const [state, setState] = useState<AppState>('loading');
   const [roomInfo, setRoomInfo] = useState<RoomInfo | null>(null);
+  const [clientId, setClientId] = useState('');
 
   useEffect(() => {
     const initializeApp = async () => {
       // Generate unique client ID
       const storedClientId = sessionStorage.getItem('clientId');
-      if (!storedClientId) {
+      if (storedClientId) {
+        setClientId(storedClientId);
+      } else {
         const newClientId = `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         sessionStorage.setItem('clientId', newClientId);
+        setClientId(newClientId);
       }
       
       // Simulate loading with minimum time for smooth experience
@@ -51,15 +56,13 @@ function App() {
     initializeApp();
   }, []);
 
-  const handleRoomCreated = (roomId: string) => {
-    const clientId = sessionStorage.getItem('clientId') || `client_${Date.now()}`;
-    setRoomInfo({ roomId, clientId });
+  const handleRoomCreated = (roomId: string, passphrase?: string) => {
+    setRoomInfo({ roomId, clientId, passphrase });
     setState('chat');
   };
 
-  const handleRoomJoined = (roomId: string) => {
-    const clientId = sessionStorage.getItem('clientId') || `client_${Date.now()}`;
-    setRoomInfo({ roomId, clientId });
+  const handleRoomJoined = (roomId: string, passphrase?: string) => {
+    setRoomInfo({ roomId, clientId, passphrase });
     setState('chat');
   };
 
@@ -87,16 +90,17 @@ function App() {
         );
       
       case 'create':
-        return <CreateRoom onRoomCreated={handleRoomCreated} onBack={() => setState('home')} />;
+        return <CreateRoom clientId={clientId} onRoomCreated={handleRoomCreated} onBack={() => setState('home')} />;
       
       case 'join':
-        return <JoinRoom onRoomJoined={handleRoomJoined} onBack={() => setState('home')} />;
+        return <JoinRoom clientId={clientId} onRoomJoined={handleRoomJoined} onBack={() => setState('home')} />;
       
       case 'chat':
         return roomInfo ? (
           <ChatRoom 
             roomId={roomInfo.roomId} 
             clientId={roomInfo.clientId}
+            passphrase={roomInfo.passphrase}
             onLeave={handleLeaveRoom}
           />
         ) : null;
@@ -1,23 +1,87 @@
 import React, { useState, useEffect, useRef } from 'react';
-
-interface Message {
-  id: string;
-  type: 'text' | 'image' | 'video' | 'audio';
-  content: string;
-  senderId: string;
-  timestamp: number;
-  file?: File;
-}
+import { useWebRTC } from '../hooks/useWebRTC';
+import { useChat } from '../hooks/useChat';
+import { usePresence } from '../hooks/usePresence';
+import { usePrivacySettings } from '../hooks/usePrivacySettings';
+import MessageList from './MessageList';
+import PeerList from './PeerList';
+import JoinRequestList from './JoinRequestList';
+import ExpiryBanner from './ExpiryBanner';
+import PrivacySettingsPanel from './PrivacySettingsPanel';
+import { ContentType, Message } from '../types';
 
 interface ChatRoomProps {
   roomId: string;
   clientId: string;
+  passphrase?: string;
   onLeave: () => void;
 }
 
-function ChatRoom({ roomId, clientId, onLeave }: ChatRoomProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+const SECOND = 1000;
+
+// Rooms with a default self-destruct time do not offer "Off"; the server would apply the default anyway
+const MESSAGE_TTL_OPTIONS = [
+  { label: 'Off', value: null },
+  { label: '10s', value: 10 * SECOND },
+  { label: '1m', value: 60 * SECOND },
+  { label: '1h', value: 3600 * SECOND },
+  { label: '24h', value: 86400 * SECOND }
+];
+
+function ChatRoom({ roomId, clientId, passphrase, onLeave }: ChatRoomProps) {
+  const {
+    peers,
+    connectionState,
+    error: connectionError,
+    roomSettings,
+    ownerId,
+    isLocked,
+    waitingApproval,
+    joinRequests,
+    expiryWarning,
+    roomExpired,
+    features,
+    sendMessage,
+    extendRoom,
+    kickPeer,
+    banPeer,
+    transferOwnership,
+    admitPeer,
+    denyPeer,
+    setRoomLocked,
+    clearError
+  } = useWebRTC(roomId, clientId, passphrase);
+  const {
+    messages,
+    error: chatError,
+    sendText,
+    sendMedia: sendMediaMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    markRead
+  } = useChat(
+    clientId,
+    sendMessage,
+    peers.length
+  );
+  const { privacySettings, updatePrivacySettings } = usePrivacySettings();
+
+  const { typingPeers, presence, notifyTyping, stopTyping } = usePresence(
+    peers,
+    connectionState === 'connected',
+    sendMessage
+  );
+
+  const [showPeers, setShowPeers] = useState(false);
+  const [showPrivacy, setShowPrivacy] = useState(false);
   const [inputText, setInputText] = useState('');
+  // While set, sending replaces this message's text instead of posting a new one
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  // While set, the next message is sent as a reply quoting this one
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Self-destruct time for messages sent from here on; starts at the room's default
+  const [messageTtl, setMessageTtl] = useState<number | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
   const [cameraMode, setCameraMode] = useState<'photo' | 'video'>('photo');
@@ -32,15 +96,15 @@ function ChatRoom({ roomId, clientId, onLeave }: ChatRoomProps) {
     type: 'image' | 'video' | 'audio';
   } | null>(null);
 
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const recordingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Follows the room's default once the server has sent the settings
+  const roomMessageTtl = roomSettings?.messageTtl ?? null;
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    setMessageTtl(roomMessageTtl);
+  }, [roomMessageTtl]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -57,29 +121,65 @@ function ChatRoom({ roomId, clientId, onLeave }: ChatRoomProps) {
     };
   }, [mediaStream, previewMedia]);
 
-  const addMessage = (content: string, type: 'text' | 'image' | 'video' | 'audio' = 'text', file?: File) => {
-    const newMessage: Message = {
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type,
-      content,
-      senderId: clientId,
-      timestamp: Date.now(),
-      file
-    };
-    
-    setMessages(prev => [...prev, newMessage]);
-    console.log('Message added:', newMessage);
+  const isConnected = connectionState === 'connected';
+
+  // Everything is allowed until the server has sent the room's settings
+  const isAllowed = (type: ContentType) => !roomSettings || roomSettings.allowedContent.includes(type);
+  const allowedFileTypes = (['image', 'video', 'audio'] as const).filter(isAllowed);
+
+  const getStatusText = () => {
+    switch (connectionState) {
+      case 'connecting':
+        return waitingApproval ? 'Waiting for approval...' : 'Connecting...';
+      case 'connected':
+        return peers.length > 0
+          ? `Connected • ${peers.length} peer${peers.length !== 1 ? 's' : ''}`
+          : 'Connected • Waiting for peers';
+      case 'disconnected':
+        return 'Reconnecting...';
+      case 'failed':
+        return roomExpired ? 'Room expired' : connectionError || 'Connection failed';
+    }
   };
 
   const handleSendText = () => {
-    if (inputText.trim()) {
-      addMessage(inputText.trim(), 'text');
+    if (inputText.trim() && isConnected) {
+      if (editingMessageId) {
+        editMessage(editingMessageId, inputText.trim());
+        setEditingMessageId(null);
+      } else {
+        sendText(inputText.trim(), { replyTo: replyingTo ?? undefined, ttl: messageTtl ?? undefined });
+        setReplyingTo(null);
+      }
       setInputText('');
+      stopTyping();
     }
   };
 
+  const startEditing = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessageId(message.id);
+    setInputText(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setInputText('');
+  };
+
+  const startReply = (message: Message) => {
+    if (editingMessageId) cancelEditing();
+    setReplyingTo(message);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+    if (e.key === 'Escape' && editingMessageId) {
+      e.preventDefault();
+      cancelEditing();
+    } else if (e.key === 'Escape' && replyingTo) {
+      e.preventDefault();
+      setReplyingTo(null);
+    } else if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendText();
     }
@@ -268,6 +368,12 @@ function ChatRoom({ roomId, clientId, onLeave }: ChatRoomProps) {
     else if (file.type.startsWith('audio/')) type = 'audio';
     else type = 'image'; // Default for other files
 
+    if (!isAllowed(type)) {
+      alert(`Sharing ${type} files is not allowed in this room.`);
+      event.target.value = '';
+      return;
+    }
+
     setPreviewMedia({ file, url, type });
     setShowPreview(true);
     
@@ -277,7 +383,7 @@ function ChatRoom({ roomId, clientId, onLeave }: ChatRoomProps) {
   // Preview Actions
   const sendMedia = () => {
     if (previewMedia) {
-      addMessage(previewMedia.file.name, previewMedia.type, previewMedia.file);
+      sendMediaMessage(previewMedia.file, previewMedia.type, { ttl: messageTtl ?? undefined });
       URL.revokeObjectURL(previewMedia.url);
       setPreviewMedia(null);
       setShowPreview(false);
@@ -312,56 +418,63 @@ function ChatRoom({ roomId, clientId, onLeave }: ChatRoomProps) {
       <div className="chat-header">
         <div className="room-info">
           <h2>Room: {roomId}</h2>
-          <div className="status">Connected</div>
+          <div className={`status ${connectionState}`}>{getStatusText()}</div>
+        </div>
+        <div className="header-actions">
+          <button className="peers-btn" onClick={() => setShowPrivacy(true)} title="Privacy settings">
+            🛡️
+          </button>
+          <button className="peers-btn" onClick={() => setShowPeers(true)}>
+            {isLocked && '🔒 '}👥 {peers.length}
+          </button>
+          <button className="leave-btn" onClick={onLeave}>
+            Leave Room
+          </button>
         </div>
-        <button className="leave-btn" onClick={onLeave}>
-          Leave Room
-        </button>
       </div>
 
+      {chatError && (
+        <div className="error-box">
+          <span>⚠️</span> {chatError}
+        </div>
+      )}
+
+      {/* Once failed, the error is the status line; before that it would be lost there */}
+      {connectionError && connectionState !== 'failed' && (
+        <div className="error-box">
+          <span>⚠️</span> {connectionError}
+          <button className="error-dismiss" onClick={clearError} title="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      <ExpiryBanner expiry={expiryWarning} expired={roomExpired} onExtend={extendRoom} />
+
+      {ownerId === clientId && (
+        <JoinRequestList requests={joinRequests} onAdmit={admitPeer} onDeny={denyPeer} />
+      )}
+
       {/* Messages Area */}
-      <div className="messages-container">
-        {messages.length === 0 ? (
+      {waitingApproval ? (
+        <div className="messages-container">
           <div className="empty-state">
-            <div className="empty-icon">💬</div>
-            <h3>No messages yet</h3>
-            <p>Send a message to start the conversation</p>
+            <div className="empty-icon">🚪</div>
+            <h3>Waiting for the room owner to let you in</h3>
+            <p>You are shown to them as <strong>{waitingApproval.label}</strong></p>
           </div>
-        ) : (
-          messages.map((message) => (
-            <div key={message.id} className={`message ${message.senderId === clientId ? 'own' : 'other'}`}>
-              <div className="message-content">
-                {message.type === 'text' && message.content}
-                
-                {message.type === 'image' && message.file && (
-                  <div className="media-message">
-                    <img src={URL.createObjectURL(message.file)} alt="Shared image" />
-                    <p>📷 {message.content}</p>
-                  </div>
-                )}
-                
-                {message.type === 'video' && message.file && (
-                  <div className="media-message">
-                    <video controls src={URL.createObjectURL(message.file)} />
-                    <p>🎥 {message.content}</p>
-                  </div>
-                )}
-                
-                {message.type === 'audio' && message.file && (
-                  <div className="media-message">
-                    <audio controls src={URL.createObjectURL(message.file)} />
-                    <p>🎤 {message.content}</p>
-                  </div>
-                )}
-              </div>
-              <div className="message-time">
-                {new Date(message.timestamp).toLocaleTimeString()}
-              </div>
-            </div>
-          ))
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+        </div>
+      ) : (
+        <MessageList
+          messages={messages}
+          currentUserId={clientId}
+          onMessageSeen={privacySettings.readReceipts ? markRead : undefined}
+          onEditMessage={isAllowed('text') && features.includes('message-changes') ? startEditing : undefined}
+          onDeleteMessage={features.includes('message-changes') ? deleteMessage : undefined}
+          onToggleReaction={features.includes('reactions') ? toggleReaction : undefined}
+          onReplyToMessage={isAllowed('text') ? startReply : undefined}
+        />
+      )}
 
       {/* Camera Interface */}
       {showCamera && (
@@ -437,26 +550,90 @@ function ChatRoom({ roomId, clientId, onLeave }: ChatRoomProps) {
             
             <div className="preview-actions">
               <button className="cancel-btn" onClick={cancelPreview}>Cancel</button>
-              <button className="send-btn" onClick={sendMedia}>Send</button>
+              <button className="send-btn" onClick={sendMedia} disabled={!isConnected}>Send</button>
             </div>
           </div>
         </div>
       )}
 
+      {showPeers && (
+        <PeerList
+          peers={peers}
+          clientId={clientId}
+          ownerId={ownerId}
+          isLocked={isLocked}
+          presence={presence}
+          onKick={kickPeer}
+          onBan={banPeer}
+          onTransferOwnership={transferOwnership}
+          onToggleLock={setRoomLocked}
+          onClose={() => setShowPeers(false)}
+        />
+      )}
+
+      {showPrivacy && (
+        <PrivacySettingsPanel
+          settings={privacySettings}
+          onChange={updatePrivacySettings}
+          onClose={() => setShowPrivacy(false)}
+        />
+      )}
+
       {/* Input Area */}
       <div className="input-area">
+        {typingPeers.length > 0 && (
+          <div className="typing-indicator">
+            {typingPeers.length === 1
+              ? `User ${typingPeers[0].slice(-4)} is typing…`
+              : `${typingPeers.length} people are typing…`}
+          </div>
+        )}
+        {editingMessageId && (
+          <div className="editing-bar">
+            <span>✏️ Editing message</span>
+            <button onClick={cancelEditing}>Cancel</button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="reply-bar">
+            <span>
+              ↩️ Replying to {replyingTo.senderId === clientId ? 'yourself' : `User ${replyingTo.senderId.slice(-4)}`}
+            </span>
+            <button onClick={() => setReplyingTo(null)}>Cancel</button>
+          </div>
+        )}
         <div className="text-input">
+          <select
+            className="ttl-select"
+            title="Messages you send disappear after"
+            value={messageTtl ?? ''}
+            onChange={(e) => setMessageTtl(e.target.value ? Number(e.target.value) : null)}
+          >
+            {MESSAGE_TTL_OPTIONS
+              .filter(option => option.value !== null || !roomSettings?.messageTtl)
+              .map(option => (
+                <option key={option.label} value={option.value ?? ''}>⏱ {option.label}</option>
+              ))}
+          </select>
           <textarea
             value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
+            onChange={(e) => {
+              setInputText(e.target.value);
+              if (e.target.value.trim() && !editingMessageId) {
+                notifyTyping();
+              } else {
+                stopTyping();
+              }
+            }}
             onKeyDown={handleKeyDown}
-            placeholder="Type a message..."
+            placeholder={isAllowed('text') ? 'Type a message...' : 'Text messages are disabled in this room'}
             rows={1}
+            disabled={!isAllowed('text')}
           />
           <button 
             className="send-text-btn"
             onClick={handleSendText}
-            disabled={!inputText.trim()}
+            disabled={!inputText.trim() || !isConnected || !isAllowed('text')}
           >
             ➤
           </button>
@@ -466,29 +643,37 @@ function ChatRoom({ roomId, clientId, onLeave }: ChatRoomProps) {
           <input
             type="file"
             ref={fileInputRef}
-            accept="image/*,video/*,audio/*"
+            accept={allowedFileTypes.map(type => `${type}/*`).join(',')}
             style={{ display: 'none' }}
             onChange={handleFileSelect}
           />
           
-          <button onClick={() => fileInputRef.current?.click()}>
-            📎 File
-          </button>
+          {allowedFileTypes.length > 0 && (
+            <button onClick={() => fileInputRef.current?.click()}>
+              📎 File
+            </button>
+          )}
           
-          <button onClick={() => startCamera('photo')}>
-            📷 Photo
-          </button>
+          {isAllowed('image') && (
+            <button onClick={() => startCamera('photo')}>
+              📷 Photo
+            </button>
+          )}
           
-          <button onClick={() => startCamera('video')}>
-            🎥 Video
-          </button>
+          {isAllowed('video') && (
+            <button onClick={() => startCamera('video')}>
+              🎥 Video
+            </button>
+          )}
           
-          <button 
-            className={isRecording ? 'recording' : ''}
-            onClick={toggleAudioRecording}
-          >
-            {isRecording ? `⏹️ ${formatTime(recordingTime)}` : '🎤 Voice'}
-          </button>
+          {isAllowed('audio') && (
+            <button 
+              className={isRecording ? 'recording' : ''}
+              onClick={toggleAudioRecording}
+            >
+              {isRecording ? `⏹️ ${formatTime(recordingTime)}` : '🎤 Voice'}
+            </button>
+          )}
         </div>
       </div>
     </div>
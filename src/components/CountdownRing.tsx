@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+
+interface CountdownRingProps {
+  expiresAt: number;
+  ttl: number;
+}
+
+const RADIUS = 7;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)}m`;
+  return `${Math.ceil(seconds / 3600)}h`;
+};
+
+// Empties as a self-destructing message runs out of time
+function CountdownRing({ expiresAt, ttl }: CountdownRingProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    // Short timers need a smoother ring than long ones
+    const interval = setInterval(() => setNow(Date.now()), ttl <= 60 * 1000 ? 250 : 1000);
+    return () => clearInterval(interval);
+  }, [ttl]);
+
+  const remaining = Math.max(0, expiresAt - now);
+
+  return (
+    <span className="countdown-ring" title={`Disappears in ${formatRemaining(remaining)}`}>
+      <svg width="18" height="18" viewBox="0 0 18 18">
+        <circle className="countdown-track" cx="9" cy="9" r={RADIUS} />
+        <circle
+          className="countdown-progress"
+          cx="9"
+          cy="9"
+          r={RADIUS}
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - remaining / ttl)}
+          transform="rotate(-90 9 9)"
+        />
+      </svg>
+    </span>
+  );
+}
+
+export default CountdownRing;
@@ -1,36 +1,112 @@
 import React, { useState } from 'react';
+import { createRoom, RoomApiError } from '../services/api';
+import { saveIdentityToken } from '../services/websocket';
+import { ContentType, RoomSettings } from '../types';
 
 interface CreateRoomProps {
-  onRoomCreated: (roomId: string) => void;
+  clientId: string;
+  onRoomCreated: (roomId: string, passphrase?: string) => void;
   onBack: () => void;
 }
 
-function CreateRoom({ onRoomCreated, onBack }: CreateRoomProps) {
+const MINUTE = 60 * 1000;
+
+const PASSPHRASE_MIN_LENGTH = 4;
+
+const CAPACITY_OPTIONS = [2, 5, 10, 20];
+
+const EXPIRY_OPTIONS = [
+  { label: '1 minute', value: MINUTE },
+  { label: '5 minutes', value: 5 * MINUTE },
+  { label: '30 minutes', value: 30 * MINUTE },
+  { label: '2 hours', value: 120 * MINUTE },
+  { label: '24 hours', value: 1440 * MINUTE }
+];
+
+const LIFETIME_OPTIONS = [
+  { label: 'No limit', value: null },
+  { label: '15 minutes', value: 15 * MINUTE },
+  { label: '1 hour', value: 60 * MINUTE },
+  { label: '8 hours', value: 480 * MINUTE },
+  { label: '24 hours', value: 1440 * MINUTE }
+];
+
+const MESSAGE_TTL_OPTIONS = [
+  { label: 'Never', value: null },
+  { label: '10 seconds', value: 10 * 1000 },
+  { label: '1 minute', value: MINUTE },
+  { label: '1 hour', value: 60 * MINUTE },
+  { label: '24 hours', value: 1440 * MINUTE }
+];
+
+const CONTENT_OPTIONS: { type: ContentType; label: string }[] = [
+  { type: 'text', label: '💬 Text' },
+  { type: 'image', label: '📷 Photos' },
+  { type: 'video', label: '🎥 Videos' },
+  { type: 'audio', label: '🎤 Voice' },
+  { type: 'file', label: '📎 Files' }
+];
+
+const DEFAULT_SETTINGS: RoomSettings = {
+  maxClients: 20,
+  expiryTime: 5 * MINUTE,
+  maxLifetime: null,
+  allowedContent: CONTENT_OPTIONS.map(option => option.type),
+  lobby: false,
+  backlog: false,
+  messageTtl: null
+};
+
+function CreateRoom({ clientId, onRoomCreated, onBack }: CreateRoomProps) {
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_SETTINGS);
+  const [passphrase, setPassphrase] = useState('');
 
-  const generateRoomId = () => {
-    // Generate 6-character alphanumeric room ID (e.g., ABC123)
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let roomId = '';
-    for (let i = 0; i < 6; i++) {
-      roomId += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return roomId;
+  const updateSettings = (updates: Partial<RoomSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  const toggleContentType = (type: ContentType) => {
+    const allowedContent = settings.allowedContent.includes(type)
+      ? settings.allowedContent.filter(allowed => allowed !== type)
+      : [...settings.allowedContent, type];
+    updateSettings({ allowedContent });
   };
 
   const handleCreateRoom = async () => {
+    if (settings.allowedContent.length === 0) {
+      setError('Allow at least one kind of message.');
+      return;
+    }
+
+    const roomPassphrase = showAdvanced && passphrase ? passphrase : undefined;
+    if (roomPassphrase && roomPassphrase.length < PASSPHRASE_MIN_LENGTH) {
+      setError(`Passphrase must be at least ${PASSPHRASE_MIN_LENGTH} characters.`);
+      return;
+    }
+
     setIsCreating(true);
     setError(null);
 
     try {
-      // Simulate room creation delay
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      const roomId = generateRoomId();
-      onRoomCreated(roomId);
+      const { roomId, identityToken } = await createRoom({
+        clientId,
+        settings: showAdvanced ? { ...settings, backlog: settings.backlog && !!roomPassphrase } : undefined,
+        passphrase: roomPassphrase
+      });
+      // The creator's ID is reserved for them, and joining under it takes the token
+      if (identityToken) {
+        saveIdentityToken(roomId, clientId, identityToken);
+      }
+      onRoomCreated(roomId, roomPassphrase);
     } catch (err) {
-      setError('Failed to create room. Please try again.');
+      if (err instanceof RoomApiError && ['unreachable', 'invalid', 'rate-limited'].includes(err.code)) {
+        setError(err.message);
+      } else {
+        setError('Failed to create room. Please try again.');
+      }
       setIsCreating(false);
     }
   };
@@ -70,7 +146,7 @@ function CreateRoom({ onRoomCreated, onBack }: CreateRoomProps) {
             </div>
             <div className="feature-text">
               <h3>Temporary</h3>
-              <p>Messages disappear when you leave</p>
+              <p>Messages disappear when you leave, or sooner on a timer</p>
             </div>
           </div>
 
@@ -85,6 +161,129 @@ function CreateRoom({ onRoomCreated, onBack }: CreateRoomProps) {
           </div>
         </div>
 
+        <div className="advanced-settings">
+          <button
+            type="button"
+            className="advanced-toggle"
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            aria-expanded={showAdvanced}
+          >
+            <span>Advanced settings</span>
+            <span className={`advanced-chevron ${showAdvanced ? 'open' : ''}`}>›</span>
+          </button>
+
+          {showAdvanced && (
+            <div className="advanced-content">
+              <label className="setting-row setting-row-stacked">
+                <span>Passphrase (optional)</span>
+                <input
+                  type="password"
+                  className="setting-input"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Required to join when set"
+                  maxLength={128}
+                  autoComplete="new-password"
+                  disabled={isCreating}
+                />
+              </label>
+
+              <label className="setting-row">
+                <span>Max participants</span>
+                <select
+                  value={settings.maxClients}
+                  onChange={(e) => updateSettings({ maxClients: Number(e.target.value) })}
+                  disabled={isCreating}
+                >
+                  {CAPACITY_OPTIONS.map(count => (
+                    <option key={count} value={count}>
+                      {count === 2 ? '2 (one-to-one)' : count}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="setting-row">
+                <span>Close when idle for</span>
+                <select
+                  value={settings.expiryTime}
+                  onChange={(e) => updateSettings({ expiryTime: Number(e.target.value) })}
+                  disabled={isCreating}
+                >
+                  {EXPIRY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="setting-row">
+                <span>Close after</span>
+                <select
+                  value={settings.maxLifetime ?? ''}
+                  onChange={(e) => updateSettings({ maxLifetime: e.target.value ? Number(e.target.value) : null })}
+                  disabled={isCreating}
+                >
+                  {LIFETIME_OPTIONS.map(option => (
+                    <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="setting-row">
+                <span>Messages disappear after</span>
+                <select
+                  value={settings.messageTtl ?? ''}
+                  onChange={(e) => updateSettings({ messageTtl: e.target.value ? Number(e.target.value) : null })}
+                  disabled={isCreating}
+                >
+                  {MESSAGE_TTL_OPTIONS.map(option => (
+                    <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="setting-row">
+                <span>Approve each person who joins</span>
+                <input
+                  type="checkbox"
+                  className="setting-checkbox"
+                  checked={settings.lobby}
+                  onChange={(e) => updateSettings({ lobby: e.target.checked })}
+                  disabled={isCreating}
+                />
+              </label>
+
+              <label className="setting-row">
+                <span>Show recent messages to people who join late (needs a passphrase)</span>
+                <input
+                  type="checkbox"
+                  className="setting-checkbox"
+                  checked={settings.backlog && !!passphrase}
+                  onChange={(e) => updateSettings({ backlog: e.target.checked })}
+                  disabled={isCreating || !passphrase}
+                />
+              </label>
+
+              <div className="setting-row setting-row-stacked">
+                <span>Allowed messages</span>
+                <div className="content-toggles">
+                  {CONTENT_OPTIONS.map(option => (
+                    <button
+                      key={option.type}
+                      type="button"
+                      className={`content-toggle ${settings.allowedContent.includes(option.type) ? 'active' : ''}`}
+                      onClick={() => toggleContentType(option.type)}
+                      disabled={isCreating}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
         {error && (
           <div className="error-box">
             <span>⚠️</span> {error}
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { RoomExpiry } from '../types';
+
+interface ExpiryBannerProps {
+  expiry: RoomExpiry | null;
+  expired: boolean;
+  onExtend: () => void;
+}
+
+// Counts down to the room closing once the server has warned about it
+function ExpiryBanner({ expiry, expired, onExtend }: ExpiryBannerProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!expiry) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [expiry]);
+
+  if (expired) {
+    return (
+      <div className="expiry-banner expired">
+        <span>⌛ This room has expired. Create a new room to keep chatting.</span>
+      </div>
+    );
+  }
+
+  if (!expiry) return null;
+
+  const seconds = Math.max(0, Math.ceil((expiry.expiresAt - now) / 1000));
+  const countdown = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+  return (
+    <div className="expiry-banner">
+      <span>
+        ⏳ {expiry.reason === 'idle' ? 'Room closes due to inactivity in' : 'Room reaches its time limit in'}
+        <span className="expiry-countdown">{countdown}</span>
+      </span>
+      <button className="owner-btn" onClick={onExtend}>
+        Extend
+      </button>
+    </div>
+  );
+}
+
+export default ExpiryBanner;
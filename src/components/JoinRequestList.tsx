@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { JoinRequest } from '../types';
+
+interface JoinRequestListProps {
+  requests: JoinRequest[];
+  onAdmit: (clientId: string) => void;
+  onDeny: (clientId: string) => void;
+}
+
+// Shown to the room owner while clients are waiting in the lobby
+function JoinRequestList({ requests, onAdmit, onDeny }: JoinRequestListProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (requests.length === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [requests.length]);
+
+  // The server also sends a resolution on timeout; this just hides stale requests sooner
+  const activeRequests = requests.filter(request => request.expiresAt > now);
+  if (activeRequests.length === 0) return null;
+
+  return (
+    <div className="join-requests">
+      {activeRequests.map(request => (
+        <div key={request.clientId} className="join-request">
+          <span className="join-request-label">
+            🚪 <strong>{request.label}</strong> wants to join
+            <span className="join-request-timer">{Math.ceil((request.expiresAt - now) / 1000)}s</span>
+          </span>
+          <div className="join-request-actions">
+            <button className="owner-btn" onClick={() => onAdmit(request.clientId)}>
+              Admit
+            </button>
+            <button className="owner-btn danger" onClick={() => onDeny(request.clientId)}>
+              Deny
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default JoinRequestList;
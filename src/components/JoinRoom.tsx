@@ -1,52 +1,133 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  DEFAULT_ROOM_CODE_FORMAT,
+  getRoomCodeFormat,
+  getRoomStatus,
+  joinRoom,
+  RoomApiError,
+  RoomCodeFormat,
+  RoomStatus
+} from '../services/api';
 
 interface JoinRoomProps {
-  onRoomJoined: (roomId: string) => void;
+  clientId: string;
+  onRoomJoined: (roomId: string, passphrase?: string) => void;
   onBack: () => void;
 }
 
-function JoinRoom({ onRoomJoined, onBack }: JoinRoomProps) {
+// Brings typed input into the canonical form of the advertised code format
+function normalizeRoomCode(value: string, codeFormat: RoomCodeFormat): string {
+  if (codeFormat.format === 'words') {
+    return value.toLowerCase().replace(/[\s_]+/g, '-').replace(/[^a-z0-9-]/g, '');
+  }
+  const code = value.replace(/\s+/g, '');
+  return codeFormat.caseSensitive ? code : code.toUpperCase();
+}
+
+function JoinRoom({ clientId, onRoomJoined, onBack }: JoinRoomProps) {
   const [roomCode, setRoomCode] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isJoining, setIsJoining] = useState(false);
+  const [roomStatus, setRoomStatus] = useState<RoomStatus | null>(null);
+  const [isCheckingRoom, setIsCheckingRoom] = useState(false);
+  const [codeFormat, setCodeFormat] = useState<RoomCodeFormat>(DEFAULT_ROOM_CODE_FORMAT);
+  const [passphrase, setPassphrase] = useState('');
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
+
+  const codePattern = useMemo(() => new RegExp(codeFormat.pattern), [codeFormat]);
+  const isCodeComplete = codePattern.test(roomCode);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getRoomCodeFormat()
+      .then(format => {
+        if (!cancelled) setCodeFormat(format);
+      })
+      .catch(() => {
+        // Keep the default format; joining will still report unknown rooms
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Preview the room as soon as a complete code has been entered
+  useEffect(() => {
+    setRoomStatus(null);
+    setNeedsPassphrase(false);
+    setPassphrase('');
+    if (!isCodeComplete) {
+      setIsCheckingRoom(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsCheckingRoom(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const status = await getRoomStatus(roomCode);
+        if (cancelled) return;
+        setRoomStatus(status);
+        setNeedsPassphrase(status.passphraseRequired);
+        setError(status.isFull
+          ? 'This room is full.'
+          : status.locked ? 'This room is locked by its owner.' : null);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof RoomApiError ? err.message : 'Unable to check this room.');
+      } finally {
+        if (!cancelled) setIsCheckingRoom(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [roomCode, isCodeComplete]);
 
   const handleJoinRoom = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const code = roomCode.trim().toUpperCase();
+    const code = normalizeRoomCode(roomCode, codeFormat).replace(/^-+|-+$/g, '');
     if (!code) {
       setError('Please enter a room code');
       return;
     }
 
-    if (code.length !== 6) {
-      setError('Room code must be 6 characters');
+    if (!codePattern.test(code)) {
+      setError(`Invalid room code. Codes look like ${codeFormat.example}.`);
+      return;
+    }
+
+    if (needsPassphrase && !passphrase) {
+      setError('Enter the room passphrase');
       return;
     }
 
     setIsJoining(true);
     setError(null);
 
+    const roomPassphrase = needsPassphrase ? passphrase : undefined;
+
     try {
-      // Simulate room join delay
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      // Validate format: 6 alphanumeric characters
-      const validPattern = /^[A-Z0-9]{6}$/;
-      if (!validPattern.test(code)) {
-        throw new Error('Invalid room code format');
-      }
-      
-      onRoomJoined(code);
+      await joinRoom(code, clientId, roomPassphrase);
+      onRoomJoined(code, roomPassphrase);
     } catch (err) {
-      setError('Invalid room code. Please check and try again.');
+      if (err instanceof RoomApiError && err.code === 'passphrase-required') {
+        setNeedsPassphrase(true);
+      }
+      setError(err instanceof RoomApiError ? err.message : 'Failed to join room. Please try again.');
       setIsJoining(false);
     }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '');
-    if (value.length <= 6) {
+    const value = normalizeRoomCode(e.target.value, codeFormat);
+    if (value.length <= codeFormat.maxLength) {
       setRoomCode(value);
       setError(null);
     }
@@ -67,7 +148,11 @@ function JoinRoom({ onRoomJoined, onBack }: JoinRoomProps) {
       <form onSubmit={handleJoinRoom} className="content">
         <div className="info-section">
           <h2>Enter room code</h2>
-          <p>Ask the room creator for the 6-character code to join their conversation.</p>
+          <p>
+            {codeFormat.format === 'words'
+              ? `Ask the room creator for the room code, like "${codeFormat.example}", to join their conversation.`
+              : `Ask the room creator for the ${codeFormat.maxLength}-character code to join their conversation.`}
+          </p>
         </div>
 
         <div className="input-group">
@@ -76,17 +161,45 @@ function JoinRoom({ onRoomJoined, onBack }: JoinRoomProps) {
             className="room-input"
             value={roomCode}
             onChange={handleInputChange}
-            placeholder="ABC123"
-            maxLength={6}
+            placeholder={codeFormat.example}
+            maxLength={codeFormat.maxLength}
             autoComplete="off"
             autoCorrect="off"
-            autoCapitalize="characters"
+            autoCapitalize={codeFormat.format === 'words' || codeFormat.caseSensitive ? 'none' : 'characters'}
             spellCheck={false}
             disabled={isJoining}
           />
-          <div className="input-hint">{roomCode.length}/6 characters</div>
+          <div className="input-hint">
+            {isCheckingRoom
+              ? 'Checking room...'
+              : roomStatus
+                ? `${roomStatus.peerCount} of ${roomStatus.maxPeers} participant${roomStatus.maxPeers !== 1 ? 's' : ''} in this room`
+                : codeFormat.format === 'words'
+                  ? 'Separate words with dashes'
+                  : `${roomCode.length}/${codeFormat.maxLength} characters`}
+          </div>
         </div>
 
+        {needsPassphrase && (
+          <div className="input-group">
+            <input
+              type="password"
+              className="room-input"
+              value={passphrase}
+              onChange={(e) => {
+                setPassphrase(e.target.value);
+                setError(null);
+              }}
+              placeholder="Passphrase"
+              maxLength={128}
+              autoComplete="off"
+              autoFocus
+              disabled={isJoining}
+            />
+            <div className="input-hint">🔑 This room is protected with a passphrase</div>
+          </div>
+        )}
+
         {error && (
           <div className="error-box">
             <span>⚠️</span> {error}
@@ -111,7 +224,7 @@ function JoinRoom({ onRoomJoined, onBack }: JoinRoomProps) {
         <button
           type="submit"
           className="primary-btn"
-          disabled={isJoining || roomCode.length !== 6}
+          disabled={isJoining || !isCodeComplete || isCheckingRoom || !!roomStatus?.isFull || !!roomStatus?.locked || (needsPassphrase && !passphrase)}
         >
           {isJoining ? (
             <>
@@ -1,12 +1,101 @@
-import React from 'react';
-import { Message } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Message, MessageQuote } from '../types';
+import CountdownRing from './CountdownRing';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
+
+// Quotes of media messages show what was sent rather than a snippet
+const QUOTE_MEDIA_LABELS: Record<string, string> = {
+  image: '📷 Photo',
+  video: '🎥 Video',
+  audio: '🎤 Audio'
+};
+
+const HIGHLIGHT_DURATION = 1500;
 
 interface MessageListProps {
   messages: Message[];
   currentUserId: string;
+  // Called when a peer's message has been on screen; omitted when read receipts are off
+  onMessageSeen?: (messageId: string) => void;
+  onEditMessage?: (message: Message) => void;
+  onDeleteMessage?: (messageId: string) => void;
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  onReplyToMessage?: (message: Message) => void;
 }
 
-function MessageList({ messages, currentUserId }: MessageListProps) {
+function MessageList({
+  messages,
+  currentUserId,
+  onMessageSeen,
+  onEditMessage,
+  onDeleteMessage,
+  onToggleReaction,
+  onReplyToMessage
+}: MessageListProps) {
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isPageVisible, setIsPageVisible] = useState(!document.hidden);
+  // Message whose reaction picker is open
+  const [pickerMessageId, setPickerMessageId] = useState<string | null>(null);
+  // Message briefly highlighted after jumping to it from a quote
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const messageElementsRef = useRef<Map<string, HTMLDivElement>>(new Map());
+
+  // Auto-scroll to bottom when new messages arrive
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsPageVisible(!document.hidden);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+    };
+  }, []);
+
+  // A message only counts as seen while the page itself is visible. Observing
+  // again after the page comes back reports whatever is on screen by then.
+  useEffect(() => {
+    if (!onMessageSeen || !isPageVisible || !containerRef.current) return;
+
+    const observer = new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        if (entry.isIntersecting) {
+          onMessageSeen((entry.target as HTMLElement).dataset.messageId!);
+          observer.unobserve(entry.target);
+        }
+      }
+    }, { threshold: 0.6 });
+
+    containerRef.current.querySelectorAll('[data-message-id]').forEach(element => observer.observe(element));
+    return () => observer.disconnect();
+  }, [messages, onMessageSeen, isPageVisible]);
+
+  // Own messages only
+  const getStatusText = (message: Message) => {
+    if (message.status === 'sending') return 'Sending…';
+    if (message.status === 'failed') return 'Failed';
+
+    const recipients = message.recipientCount ?? 0;
+    const readCount = message.readBy?.length ?? 0;
+    const deliveredCount = message.deliveredTo?.length ?? 0;
+
+    if (readCount > 0) {
+      return recipients > 1 && readCount < recipients ? `Read by ${readCount} of ${recipients}` : 'Read';
+    }
+    if (deliveredCount > 0) {
+      return recipients > 1 ? `Delivered to ${deliveredCount} of ${recipients}` : 'Delivered';
+    }
+    return message.status === 'sent' ? 'Sent' : '';
+  };
+
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString([], { 
       hour: '2-digit', 
@@ -22,130 +111,262 @@ function MessageList({ messages, currentUserId }: MessageListProps) {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  // The divider goes above the oldest replayed message
+  const firstHistoryId = messages.find(message => message.isHistory)?.id;
+
+  const describeSender = (senderId: string) =>
+    senderId === currentUserId ? 'You' : `User ${senderId.slice(-4)}`;
+
+  const scrollToMessage = (messageId: string) => {
+    const element = messageElementsRef.current.get(messageId);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(messageId);
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION);
+  };
+
+  // The quote keeps its own copy of the snippet, but an unsent original is not shown again
+  const renderQuote = (quote: MessageQuote) => {
+    const original = messages.find(message => message.id === quote.messageId);
+
+    return (
+      <button
+        type="button"
+        className="message-quote"
+        onClick={() => scrollToMessage(quote.messageId)}
+        disabled={!original}
+      >
+        <span className="quote-sender">{describeSender(quote.senderId)}</span>
+        <span className="quote-snippet">
+          {original?.deleted ? 'Message was unsent' : QUOTE_MEDIA_LABELS[quote.messageType] ?? quote.snippet}
+        </span>
+      </button>
+    );
+  };
+
+  const handleReact = (messageId: string, emoji: string) => {
+    onToggleReaction?.(messageId, emoji);
+    setPickerMessageId(null);
+  };
+
+  const handleDelete = (messageId: string) => {
+    if (window.confirm('Unsend this message for everyone?')) {
+      onDeleteMessage?.(messageId);
+    }
+  };
+
   const renderMessage = (message: Message) => {
     const isOwn = message.senderId === currentUserId;
+    // Failed messages never reached anyone, and replayed ones belong to an earlier session
+    const canChange = isOwn && !message.deleted && !message.isHistory && message.status === 'sent';
+    // Messages still sending, or that failed, have not reached anyone
+    const isVisibleToPeers = !message.deleted && message.status !== 'sending' && message.status !== 'failed';
+    const canReact = !!onToggleReaction && isVisibleToPeers;
+    const canReply = !!onReplyToMessage && isVisibleToPeers;
+    const reactions = Object.entries(message.reactions ?? {});
     
     return (
-      <div 
-        key={message.id} 
-        className={`message ${isOwn ? 'own' : 'other'}`}
-      >
-        {!isOwn && (
-          <div className="message-sender">User {message.senderId.slice(-4)}</div>
+      <React.Fragment key={message.id}>
+        {message.id === firstHistoryId && (
+          <div className="history-divider">Earlier messages</div>
         )}
-        <div className="message-content">
-          {message.type === 'text' && message.content}
+        <div 
+          ref={element => {
+            if (element) {
+              messageElementsRef.current.set(message.id, element);
+            } else {
+              messageElementsRef.current.delete(message.id);
+            }
+          }}
+          className={`message ${isOwn ? 'own' : 'other'}${message.isHistory ? ' history' : ''}${message.deleted ? ' deleted' : ''}${message.id === highlightedId ? ' highlighted' : ''}`}
+          data-message-id={!isOwn && !message.isHistory ? message.id : undefined}
+        >
+          {!isOwn && (
+            <div className="message-sender">User {message.senderId.slice(-4)}</div>
+          )}
+          {message.deleted ? (
+            <div className="message-content">
+              🚫 {isOwn ? 'You unsent this message' : 'This message was unsent'}
+            </div>
+          ) : (
+            <div className="message-content">
+              {message.replyTo && renderQuote(message.replyTo)}
+              {message.type === 'text' && message.content}
           
-          {message.type === 'image' && (
-            <div className="message-media">
-              {message.file ? (
-                <>
-                  <img 
-                    src={URL.createObjectURL(message.file)} 
-                    alt={message.content}
-                    className="message-image"
-                    onLoad={(e) => {
-                      // Clean up object URL after image loads
-                      setTimeout(() => {
-                        URL.revokeObjectURL((e.target as HTMLImageElement).src);
-                      }, 1000);
-                    }}
-                  />
-                  <div className="media-info">
-                    <span>📷 {message.content}</span>
-                    <span>{formatFileSize(message.file.size)}</span>
-                  </div>
-                </>
-              ) : (
-                <div className="media-placeholder">
-                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <rect x="3" y="3" width="18" height="18" rx="2" ry="2"/>
-                    <circle cx="8.5" cy="8.5" r="1.5"/>
-                    <polyline points="21,15 16,10 5,21"/>
-                  </svg>
-                  <span>{message.content}</span>
+              {message.type === 'image' && (
+                <div className="message-media">
+                  {message.file ? (
+                    <>
+                      <img 
+                        src={message.objectUrl} 
+                        alt={message.content}
+                        className="message-image"
+                      />
+                      <div className="media-info">
+                        <span>📷 {message.content}</span>
+                        <span>{formatFileSize(message.file.size)}</span>
+                      </div>
+                    </>
+                  ) : message.url ? (
+                    <>
+                      <img src={message.url} alt={message.content} className="message-image" />
+                      <div className="media-info">
+                        <span>📷 {message.content}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="media-placeholder">
+                      <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <rect x="3" y="3" width="18" height="18" rx="2" ry="2"/>
+                        <circle cx="8.5" cy="8.5" r="1.5"/>
+                        <polyline points="21,15 16,10 5,21"/>
+                      </svg>
+                      <span>{message.content}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+          
+              {message.type === 'video' && (
+                <div className="message-media">
+                  {message.file ? (
+                    <>
+                      <video 
+                        controls 
+                        className="message-video"
+                        src={message.objectUrl}
+                      />
+                      <div className="media-info">
+                        <span>🎥 {message.content}</span>
+                        <span>{formatFileSize(message.file.size)}</span>
+                      </div>
+                    </>
+                  ) : message.url ? (
+                    <>
+                      <video controls className="message-video" src={message.url} />
+                      <div className="media-info">
+                        <span>🎥 {message.content}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="media-placeholder">
+                      <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polygon points="23 7 16 12 23 17 23 7"/>
+                        <rect x="1" y="5" width="15" height="14" rx="2" ry="2"/>
+                      </svg>
+                      <span>{message.content}</span>
+                    </div>
+                  )}
                 </div>
               )}
-            </div>
-          )}
           
-          {message.type === 'video' && (
-            <div className="message-media">
-              {message.file ? (
-                <>
-                  <video 
-                    controls 
-                    className="message-video"
-                    src={URL.createObjectURL(message.file)}
-                    onLoadedData={(e) => {
-                      // Clean up object URL after video loads
-                      setTimeout(() => {
-                        URL.revokeObjectURL((e.target as HTMLVideoElement).src);
-                      }, 1000);
-                    }}
-                  />
-                  <div className="media-info">
-                    <span>🎥 {message.content}</span>
-                    <span>{formatFileSize(message.file.size)}</span>
-                  </div>
-                </>
-              ) : (
-                <div className="media-placeholder">
-                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <polygon points="23 7 16 12 23 17 23 7"/>
-                    <rect x="1" y="5" width="15" height="14" rx="2" ry="2"/>
-                  </svg>
-                  <span>{message.content}</span>
+              {message.type === 'audio' && (
+                <div className="message-media">
+                  {message.file ? (
+                    <>
+                      <audio 
+                        controls 
+                        className="message-audio"
+                        src={message.objectUrl}
+                      />
+                      <div className="media-info">
+                        <span>🎤 {message.content}</span>
+                        <span>{formatFileSize(message.file.size)}</span>
+                      </div>
+                    </>
+                  ) : message.url ? (
+                    <>
+                      <audio controls className="message-audio" src={message.url} />
+                      <div className="media-info">
+                        <span>🎤 {message.content}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="media-placeholder">
+                      <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"/>
+                        <path d="M19 10v2a7 7 0 0 1-14 0v-2"/>
+                      </svg>
+                      <span>{message.content}</span>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           )}
-          
-          {message.type === 'audio' && (
-            <div className="message-media">
-              {message.file ? (
-                <>
-                  <audio 
-                    controls 
-                    className="message-audio"
-                    src={URL.createObjectURL(message.file)}
-                    onLoadedData={(e) => {
-                      // Clean up object URL after audio loads
-                      setTimeout(() => {
-                        URL.revokeObjectURL((e.target as HTMLAudioElement).src);
-                      }, 1000);
-                    }}
-                  />
-                  <div className="media-info">
-                    <span>🎤 {message.content}</span>
-                    <span>{formatFileSize(message.file.size)}</span>
-                  </div>
-                </>
-              ) : (
-                <div className="media-placeholder">
-                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"/>
-                    <path d="M19 10v2a7 7 0 0 1-14 0v-2"/>
-                  </svg>
-                  <span>{message.content}</span>
+        
+          <div className="message-time">
+            {message.expiresAt !== undefined && message.ttl !== undefined && (
+              <CountdownRing expiresAt={message.expiresAt} ttl={message.ttl} />
+            )}
+            {message.isHistory && '🕘 '}{formatTime(message.timestamp)}
+            {message.editedAt !== undefined && !message.deleted && ' · edited'}
+            {isOwn && message.status && !message.deleted && (
+              <span className={`message-status ${message.status}`}> · {getStatusText(message)}</span>
+            )}
+          </div>
+
+          {(reactions.length > 0 || canReact) && (
+            <div className="message-reactions">
+              {reactions.map(([emoji, reactors]) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  className={`reaction-chip${reactors.includes(currentUserId) ? ' own' : ''}`}
+                  title={reactors.map(describeSender).join(', ')}
+                  onClick={() => handleReact(message.id, emoji)}
+                  disabled={!canReact}
+                >
+                  {emoji} {reactors.length}
+                </button>
+              ))}
+              {canReact && (
+                <button
+                  type="button"
+                  className="reaction-add"
+                  title="Add reaction"
+                  onClick={() => setPickerMessageId(pickerMessageId === message.id ? null : message.id)}
+                >
+                  ☺+
+                </button>
+              )}
+              {canReact && pickerMessageId === message.id && (
+                <div className="reaction-picker">
+                  {QUICK_REACTIONS.map(emoji => (
+                    <button key={emoji} type="button" onClick={() => handleReact(message.id, emoji)}>
+                      {emoji}
+                    </button>
+                  ))}
                 </div>
               )}
             </div>
           )}
+
+          {(canChange || canReply) && (
+            <div className="message-actions">
+              {canReply && (
+                <button type="button" onClick={() => onReplyToMessage?.(message)}>Reply</button>
+              )}
+              {canChange && onEditMessage && message.type === 'text' && (
+                <button type="button" onClick={() => onEditMessage(message)}>Edit</button>
+              )}
+              {canChange && onDeleteMessage && (
+                <button type="button" onClick={() => handleDelete(message.id)}>Unsend</button>
+              )}
+            </div>
+          )}
         </div>
-        
-        <div className="message-time">{formatTime(message.timestamp)}</div>
-      </div>
+      </React.Fragment>
     );
   };
 
   if (messages.length === 0) {
     return (
-      <div className="messages-area">
-        <div className="empty-messages">
-          <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
-            <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/>
-          </svg>
+      <div className="messages-container">
+        <div className="empty-state">
+          <div className="empty-icon">💬</div>
           <h3>No messages yet</h3>
           <p>Send a message to start the conversation</p>
         </div>
@@ -154,8 +375,9 @@ function MessageList({ messages, currentUserId }: MessageListProps) {
   }
 
   return (
-    <div className="messages-area">
+    <div className="messages-container" ref={containerRef}>
       {messages.map(renderMessage)}
+      <div ref={messagesEndRef} />
     </div>
   );
 }
@@ -1,16 +1,57 @@
 import React from 'react';
+import { Peer, PresenceState } from '../types';
 
 interface PeerListProps {
-  peers: string[];
+  peers: Peer[];
+  clientId: string;
+  ownerId: string | null;
+  isLocked: boolean;
+  // Peers that have not reported a state are assumed active
+  presence: Record<string, PresenceState>;
+  onKick: (peerId: string) => void;
+  onBan: (peerId: string) => void;
+  onTransferOwnership: (peerId: string) => void;
+  onToggleLock: (locked: boolean) => void;
   onClose: () => void;
 }
 
-function PeerList({ peers, onClose }: PeerListProps) {
+const PRESENCE_LABELS: Record<PresenceState, string> = {
+  active: 'Active',
+  idle: 'Idle',
+  backgrounded: 'Away'
+};
+
+function PeerList({
+  peers,
+  clientId,
+  ownerId,
+  isLocked,
+  presence,
+  onKick,
+  onBan,
+  onTransferOwnership,
+  onToggleLock,
+  onClose
+}: PeerListProps) {
+  const isOwner = ownerId === clientId;
+
   const formatPeerId = (peerId: string) => {
     // Show first 8 characters for readability
     return peerId.length > 8 ? `${peerId.substring(0, 8)}...` : peerId;
   };
 
+  // Peers without an open data channel (including iOS clients) are reached via the server relay
+  const getStatus = (peer: Peer) => {
+    switch (peer.connectionState) {
+      case 'connected':
+        return { className: 'connected', label: 'Direct' };
+      case 'connecting':
+        return { className: 'connecting', label: 'Connecting' };
+      default:
+        return { className: 'relayed', label: 'Relayed' };
+    }
+  };
+
   const getConnectionIcon = () => (
     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
       <circle cx="12" cy="12" r="3"/>
@@ -33,6 +74,20 @@ function PeerList({ peers, onClose }: PeerListProps) {
         </div>
 
         <div className="modal-content">
+          <div className="owner-section">
+            <span>
+              {isOwner
+                ? '👑 You own this room'
+                : ownerId ? `👑 Owned by ${formatPeerId(ownerId)}` : 'No owner'}
+              {isLocked && ' · 🔒 Locked'}
+            </span>
+            {isOwner && (
+              <button className="owner-btn" onClick={() => onToggleLock(!isLocked)}>
+                {isLocked ? 'Unlock room' : 'Lock room'}
+              </button>
+            )}
+          </div>
+
           {peers.length === 0 ? (
             <div className="empty-peers">
               <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -50,8 +105,8 @@ function PeerList({ peers, onClose }: PeerListProps) {
                 {peers.length} peer{peers.length !== 1 ? 's' : ''} connected
               </div>
               
-              {peers.map((peerId, index) => (
-                <div key={peerId} className="peer-item">
+              {peers.map((peer, index) => (
+                <div key={peer.id} className="peer-item">
                   <div className="peer-avatar">
                     <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                       <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"/>
@@ -60,14 +115,43 @@ function PeerList({ peers, onClose }: PeerListProps) {
                   </div>
                   
                   <div className="peer-info">
-                    <div className="peer-name">Peer {index + 1}</div>
-                    <div className="peer-id">{formatPeerId(peerId)}</div>
+                    <div className="peer-name">
+                      <span
+                        className={`presence-dot ${presence[peer.id] ?? 'active'}`}
+                        title={PRESENCE_LABELS[presence[peer.id] ?? 'active']}
+                      />
+                      Peer {index + 1}
+                      {peer.id === ownerId && <span className="owner-badge">Owner</span>}
+                    </div>
+                    <div className="peer-id">{formatPeerId(peer.id)}</div>
                   </div>
                   
                   <div className="peer-status">
-                    <div className="status-indicator connected"></div>
-                    <span>Connected</span>
+                    <div className={`status-indicator ${getStatus(peer).className}`}></div>
+                    <span>{getStatus(peer).label}</span>
                   </div>
+
+                  {isOwner && (
+                    <div className="peer-actions">
+                      <button className="owner-btn" onClick={() => onTransferOwnership(peer.id)} title="Make owner">
+                        👑
+                      </button>
+                      <button className="owner-btn" onClick={() => onKick(peer.id)} title="Remove from room">
+                        Kick
+                      </button>
+                      <button
+                        className="owner-btn danger"
+                        onClick={() => {
+                          if (window.confirm('Ban this peer? This only removes their current session. They can still rejoin from a new tab or device.')) {
+                            onBan(peer.id);
+                          }
+                        }}
+                        title="Remove and keep this session out"
+                      >
+                        Ban
+                      </button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -76,10 +160,11 @@ function PeerList({ peers, onClose }: PeerListProps) {
           <div className="peer-info-section">
             <h4>About Peer Connections</h4>
             <ul>
-              <li>All connections are direct peer-to-peer</li>
-              <li>Messages are encrypted end-to-end</li>
-              <li>No data passes through our servers</li>
+              <li>Direct peers are connected peer-to-peer</li>
+              <li>Relayed peers receive messages through the server</li>
+              <li>Media is always sent through the server relay</li>
               <li>Peers are identified by random IDs</li>
+              <li>The room owner can remove peers and lock the room</li>
             </ul>
           </div>
         </div>
@@ -0,0 +1,47 @@
+import React from 'react';
+import { PrivacySettings } from '../hooks/usePrivacySettings';
+
+interface PrivacySettingsPanelProps {
+  settings: PrivacySettings;
+  onChange: (updates: Partial<PrivacySettings>) => void;
+  onClose: () => void;
+}
+
+function PrivacySettingsPanel({ settings, onChange, onClose }: PrivacySettingsPanelProps) {
+  return (
+    <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="peer-list-modal">
+        <div className="modal-header">
+          <h3>Privacy</h3>
+          <button className="close-button" onClick={onClose}>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-content">
+          <label className="setting-row">
+            <span>Send read receipts</span>
+            <input
+              type="checkbox"
+              className="setting-checkbox"
+              checked={settings.readReceipts}
+              onChange={(e) => onChange({ readReceipts: e.target.checked })}
+            />
+          </label>
+
+          <div className="peer-info-section">
+            <ul>
+              <li>Peers are always told when a message reaches you</li>
+              <li>With read receipts off, they are not told when you have seen it</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PrivacySettingsPanel;
@@ -0,0 +1,546 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { Message, MessageQuote, MessageReactions, WebRTCMessage } from '../types';
+
+// Matches the chunk size the iOS app uses to reassemble relayed media
+const MEDIA_CHUNK_SIZE = 64 * 1024;
+
+const QUOTE_SNIPPET_LENGTH = 120;
+// How long after a change the server can still reject it
+const CHANGE_REJECTION_WINDOW = 10 * 1000;
+const MAX_MESSAGE_TTL = 24 * 60 * 60 * 1000;
+const MESSAGE_TYPES: MessageType[] = ['text', 'image', 'video', 'audio'];
+
+type MessageType = Message['type'];
+
+interface IncomingMedia {
+  senderId: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  chunks: Map<number, Uint8Array>;
+  totalChunks?: number;
+  ttl?: number;
+}
+
+interface PendingChange {
+  sentAt: number;
+  rollback: () => void;
+}
+
+interface SendOptions {
+  replyTo?: Message;
+  // Self-destruct time in milliseconds
+  ttl?: number;
+}
+
+const generateMessageId = () => `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const getMessageType = (mimeType: string): MessageType => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'image';
+};
+
+const parseTtl = (ttl: unknown) =>
+  typeof ttl === 'number' && ttl > 0 && ttl <= MAX_MESSAGE_TTL ? ttl : undefined;
+
+const toQuote = (message: Message): MessageQuote => ({
+  messageId: message.id,
+  senderId: message.senderId,
+  snippet: message.type === 'text' ? message.content.slice(0, QUOTE_SNIPPET_LENGTH) : '',
+  messageType: message.type
+});
+
+// Quotes arriving over the data channel have not been through the server's checks
+const parseQuote = (quote: any): MessageQuote | undefined => {
+  if (typeof quote?.messageId !== 'string' || typeof quote.senderId !== 'string') return undefined;
+
+  return {
+    messageId: quote.messageId,
+    senderId: quote.senderId,
+    snippet: typeof quote.snippet === 'string' ? quote.snippet.slice(0, QUOTE_SNIPPET_LENGTH) : '',
+    messageType: MESSAGE_TYPES.includes(quote.messageType) ? quote.messageType : 'text'
+  };
+};
+
+// Drops an unsent message's content and media, keeping its place in the conversation
+const tombstone = (message: Message): Message => {
+  if (message.objectUrl) URL.revokeObjectURL(message.objectUrl);
+  return { ...message, deleted: true, content: '', file: undefined, objectUrl: undefined, url: undefined, reactions: undefined };
+};
+
+// Emojis nobody reacts with any more are dropped
+const applyReaction = (reactions: MessageReactions | undefined, emoji: string, clientId: string, add: boolean) => {
+  const next = { ...reactions };
+  const reactors = (next[emoji] ?? []).filter(id => id !== clientId);
+  if (add) reactors.push(clientId);
+
+  if (reactors.length > 0) {
+    next[emoji] = reactors;
+  } else {
+    delete next[emoji];
+  }
+  return next;
+};
+
+const addUnique = (list: string[] | undefined, item: string) =>
+  list?.includes(item) ? list : [...(list ?? []), item];
+
+const fromBase64 = (data: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// recipientCount is the number of peers in the room, recorded on each sent message
+export function useChat(
+  clientId: string,
+  sendMessage: (type: string, data: any, targetPeerId?: string) => Promise<void>,
+  recipientCount: number
+) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const incomingMediaRef = useRef<Map<string, IncomingMedia>>(new Map());
+  const messagesRef = useRef<Message[]>([]);
+  const recipientCountRef = useRef(recipientCount);
+  // Messages we already sent a read receipt for
+  const readReceiptsSentRef = useRef<Set<string>>(new Set());
+  const expiryTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  // How to undo our latest reaction, edit or unsend of each message
+  const pendingChangesRef = useRef<Map<string, PendingChange>>(new Map());
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    recipientCountRef.current = recipientCount;
+  }, [recipientCount]);
+
+  // Object URLs outlive their elements, so they are released when leaving the room
+  useEffect(() => {
+    const expiryTimers = expiryTimersRef.current;
+    return () => {
+      expiryTimers.forEach(timer => clearTimeout(timer));
+      messagesRef.current.forEach(message => {
+        if (message.objectUrl) URL.revokeObjectURL(message.objectUrl);
+      });
+    };
+  }, []);
+
+  // Self-destructed messages leave nothing behind, not even a placeholder
+  const expireMessage = useCallback((messageId: string) => {
+    expiryTimersRef.current.delete(messageId);
+    readReceiptsSentRef.current.delete(messageId);
+    setMessages(prev => prev.filter(message => {
+      if (message.id !== messageId) return true;
+      if (message.objectUrl) URL.revokeObjectURL(message.objectUrl);
+      return false;
+    }));
+  }, []);
+
+  // Replayed history can arrive after newer messages, so it is slotted in by time.
+  // A self-destruct timer starts when the message is added, so every client counts
+  // from when it received the message.
+  const addMessage = useCallback((message: Message) => {
+    if (message.ttl && !expiryTimersRef.current.has(message.id)) {
+      if (messagesRef.current.some(existing => existing.id === message.id)) return;
+
+      message = { ...message, expiresAt: Date.now() + message.ttl };
+      expiryTimersRef.current.set(message.id, setTimeout(() => expireMessage(message.id), message.ttl));
+    }
+
+    if (message.file && !message.objectUrl) {
+      message = { ...message, objectUrl: URL.createObjectURL(message.file) };
+    }
+
+    setMessages(prev => {
+      if (prev.some(existing => existing.id === message.id)) return prev;
+      if (!message.isHistory) return [...prev, message];
+      return [...prev, message].sort((a, b) => a.timestamp - b.timestamp);
+    });
+  }, [expireMessage]);
+
+  const updateMessage = useCallback((messageId: string, updates: Partial<Message>) => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId ? { ...message, ...updates } : message
+    ));
+  }, []);
+
+  const updateReactions = useCallback((messageId: string, emoji: string, reactorId: string, add: boolean) => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId && !message.deleted
+        ? { ...message, reactions: applyReaction(message.reactions, emoji, reactorId, add) }
+        : message
+    ));
+  }, []);
+
+  // Changes are shown before they are sent, so they are undone if sending fails
+  // or the server rejects them
+  const trackChange = useCallback((messageId: string, rollback: () => void) => {
+    pendingChangesRef.current.set(messageId, { sentAt: Date.now(), rollback });
+  }, []);
+
+  const rollbackChange = useCallback((messageId: string) => {
+    const change = pendingChangesRef.current.get(messageId);
+    pendingChangesRef.current.delete(messageId);
+    if (change && Date.now() - change.sentAt <= CHANGE_REJECTION_WINDOW) change.rollback();
+  }, []);
+
+  // Receipts are best effort, so failures are only logged
+  const sendReceipt = useCallback((messageId: string, to: string, status: 'delivered' | 'read') => {
+    sendMessage('receipt', { messageId, status, to }, to).catch(error => {
+      console.warn(`Could not send ${status} receipt:`, error);
+    });
+  }, [sendMessage]);
+
+  // Called once a message from a peer has been on screen
+  const markRead = useCallback((messageId: string) => {
+    const message = messagesRef.current.find(existing => existing.id === messageId);
+    if (!message || message.senderId === clientId || message.isHistory || readReceiptsSentRef.current.has(messageId)) {
+      return;
+    }
+
+    readReceiptsSentRef.current.add(messageId);
+    sendReceipt(messageId, message.senderId, 'read');
+  }, [clientId, sendReceipt]);
+
+  const sendText = useCallback(async (content: string, { replyTo, ttl }: SendOptions = {}) => {
+    const message: Message = {
+      id: generateMessageId(),
+      type: 'text',
+      content,
+      senderId: clientId,
+      timestamp: Date.now(),
+      status: 'sending',
+      recipientCount: recipientCountRef.current,
+      replyTo: replyTo ? toQuote(replyTo) : undefined,
+      ttl
+    };
+    addMessage(message);
+
+    try {
+      setError(null);
+      await sendMessage('message', {
+        messageId: message.id,
+        content,
+        messageType: 'text',
+        timestamp: message.timestamp,
+        ...(message.replyTo ? { replyTo: message.replyTo } : {}),
+        ...(ttl ? { ttl } : {})
+      });
+      updateMessage(message.id, { status: 'sent' });
+    } catch (error) {
+      console.error('Error sending message:', error);
+      updateMessage(message.id, { status: 'failed' });
+      setError(error instanceof Error ? error.message : 'Failed to send message');
+    }
+  }, [clientId, sendMessage, addMessage, updateMessage]);
+
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    const message = messagesRef.current.find(existing => existing.id === messageId);
+    if (!message || message.senderId !== clientId || message.type !== 'text' || message.deleted) return;
+
+    const editedAt = Date.now();
+    updateMessage(messageId, { content, editedAt });
+    trackChange(messageId, () => updateMessage(messageId, { content: message.content, editedAt: message.editedAt }));
+
+    try {
+      setError(null);
+      // The original timestamp keeps the edited message in place in the backlog
+      await sendMessage('message-edit', {
+        messageId,
+        content,
+        messageType: 'text',
+        timestamp: message.timestamp,
+        editedAt
+      });
+    } catch (error) {
+      console.error('Error editing message:', error);
+      rollbackChange(messageId);
+      setError(error instanceof Error ? error.message : 'Failed to edit message');
+    }
+  }, [clientId, sendMessage, updateMessage, trackChange, rollbackChange]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    const message = messagesRef.current.find(existing => existing.id === messageId);
+    if (!message || message.senderId !== clientId || message.deleted) return;
+
+    setMessages(prev => prev.map(existing => existing.id === messageId ? tombstone(existing) : existing));
+    // The tombstone released the media's object URL, so a restored message gets a new one
+    trackChange(messageId, () => setMessages(prev => prev.map(existing => existing.id === messageId
+      ? { ...message, objectUrl: message.file ? URL.createObjectURL(message.file) : undefined }
+      : existing
+    )));
+
+    try {
+      setError(null);
+      await sendMessage('message-delete', { messageId });
+    } catch (error) {
+      console.error('Error unsending message:', error);
+      rollbackChange(messageId);
+      setError(error instanceof Error ? error.message : 'Failed to unsend message');
+    }
+  }, [clientId, sendMessage, trackChange, rollbackChange]);
+
+  // Adds the emoji, or takes it back if we already reacted with it
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    const message = messagesRef.current.find(existing => existing.id === messageId);
+    if (!message || message.deleted) return;
+
+    const add = !message.reactions?.[emoji]?.includes(clientId);
+    updateReactions(messageId, emoji, clientId, add);
+    trackChange(messageId, () => updateReactions(messageId, emoji, clientId, !add));
+
+    try {
+      setError(null);
+      await sendMessage('reaction', { messageId, emoji, action: add ? 'add' : 'remove' });
+    } catch (error) {
+      console.error('Error sending reaction:', error);
+      rollbackChange(messageId);
+      setError(error instanceof Error ? error.message : 'Failed to send reaction');
+    }
+  }, [clientId, sendMessage, updateReactions, trackChange, rollbackChange]);
+
+  const sendMedia = useCallback(async (file: File, type: MessageType, { ttl }: SendOptions = {}) => {
+    const mediaId = `media_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const mimeType = file.type || 'application/octet-stream';
+
+    // The media ID doubles as the message ID for receipts
+    addMessage({
+      id: mediaId,
+      type,
+      content: file.name,
+      senderId: clientId,
+      timestamp: Date.now(),
+      file,
+      status: 'sending',
+      recipientCount: recipientCountRef.current,
+      ttl
+    });
+
+    try {
+      setError(null);
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const totalChunks = Math.max(1, Math.ceil(bytes.length / MEDIA_CHUNK_SIZE));
+
+      // Field names follow the iOS media relay protocol (mediaURL carries the media ID)
+      await sendMessage('media_start', {
+        messageType: mimeType,
+        mediaURL: mediaId,
+        fileName: file.name,
+        fileSize: file.size,
+        ...(ttl ? { ttl } : {})
+      });
+
+      for (let i = 0; i < totalChunks; i++) {
+        const chunk = bytes.subarray(i * MEDIA_CHUNK_SIZE, (i + 1) * MEDIA_CHUNK_SIZE);
+        await sendMessage('media_chunk', { mediaId, chunkIndex: i, totalChunks, data: chunk });
+
+        // Small delay to avoid flooding the relay
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      await sendMessage('media_end', {
+        messageType: mimeType,
+        mediaURL: mediaId,
+        fileName: file.name,
+        fileSize: file.size,
+        ...(ttl ? { ttl } : {})
+      });
+
+      updateMessage(mediaId, { status: 'sent' });
+    } catch (error) {
+      console.error('Error sending media:', error);
+      updateMessage(mediaId, { status: 'failed' });
+      setError(error instanceof Error ? error.message : 'Failed to send media');
+    }
+  }, [clientId, sendMessage, addMessage, updateMessage]);
+
+  const completeIncomingMedia = useCallback((mediaId: string) => {
+    const media = incomingMediaRef.current.get(mediaId);
+    if (!media || media.totalChunks === undefined || media.chunks.size < media.totalChunks) {
+      return;
+    }
+
+    const parts: Uint8Array[] = [];
+    for (let i = 0; i < media.totalChunks; i++) {
+      const chunk = media.chunks.get(i);
+      if (!chunk) {
+        console.error(`Missing chunk ${i} for ${media.fileName}`);
+        return;
+      }
+      parts.push(chunk);
+    }
+
+    incomingMediaRef.current.delete(mediaId);
+    const file = new File(parts, media.fileName, { type: media.mimeType });
+
+    addMessage({
+      id: mediaId,
+      type: getMessageType(media.mimeType),
+      content: media.fileName,
+      senderId: media.senderId,
+      timestamp: Date.now(),
+      file,
+      ttl: media.ttl
+    });
+    sendReceipt(mediaId, media.senderId, 'delivered');
+  }, [addMessage, sendReceipt]);
+
+  const handleIncomingMessage = useCallback((message: WebRTCMessage) => {
+    const { type, data, from } = message;
+
+    switch (type) {
+      case 'message': {
+        if (!data?.content) return;
+
+        const messageType = (data.messageType || 'text') as MessageType;
+        const isHistory = data.history === true;
+
+        // Replayed messages can run out of time before they arrive
+        if (typeof data.ttl === 'number' && data.ttl <= 0) return;
+
+        addMessage({
+          id: data.messageId || generateMessageId(),
+          type: MESSAGE_TYPES.includes(messageType) ? messageType : 'text',
+          content: data.content,
+          senderId: from,
+          timestamp: typeof data.timestamp === 'number' ? data.timestamp : Date.now(),
+          url: data.mediaURL || undefined,
+          replyTo: parseQuote(data.replyTo),
+          ttl: parseTtl(data.ttl),
+          isHistory
+        });
+
+        // Replayed messages are not acknowledged; their sender may be long gone
+        if (data.messageId && !isHistory) {
+          sendReceipt(data.messageId, from, 'delivered');
+        }
+        break;
+      }
+
+      case 'message-edit': {
+        if (!data?.messageId || typeof data.content !== 'string') return;
+
+        // Only the original sender may edit; the server can only check this for messages it relayed
+        setMessages(prev => prev.map(existing =>
+          existing.id === data.messageId && existing.senderId === from && existing.type === 'text' && !existing.deleted
+            ? { ...existing, content: data.content, editedAt: typeof data.editedAt === 'number' ? data.editedAt : Date.now() }
+            : existing
+        ));
+        break;
+      }
+
+      case 'message-delete': {
+        if (!data?.messageId) return;
+
+        const pending = incomingMediaRef.current.get(data.messageId);
+        if (pending?.senderId === from) {
+          incomingMediaRef.current.delete(data.messageId);
+        }
+
+        setMessages(prev => prev.map(message =>
+          message.id === data.messageId && message.senderId === from && !message.deleted ? tombstone(message) : message
+        ));
+        break;
+      }
+
+      case 'reaction': {
+        if (!data?.messageId || typeof data.emoji !== 'string' || !['add', 'remove'].includes(data.action)) return;
+
+        updateReactions(data.messageId, data.emoji, from, data.action === 'add');
+        break;
+      }
+
+      case 'receipt': {
+        if (!data?.messageId || !['delivered', 'read'].includes(data.status)) return;
+
+        // A read message has also been delivered
+        setMessages(prev => prev.map(existing => {
+          if (existing.id !== data.messageId || existing.senderId !== clientId) return existing;
+
+          const deliveredTo = addUnique(existing.deliveredTo, from);
+          return data.status === 'read'
+            ? { ...existing, deliveredTo, readBy: addUnique(existing.readBy, from) }
+            : { ...existing, deliveredTo };
+        }));
+        break;
+      }
+
+      case 'media_start': {
+        if (!data?.mediaURL) return;
+
+        incomingMediaRef.current.set(data.mediaURL, {
+          senderId: from,
+          fileName: data.fileName || 'media',
+          mimeType: data.messageType || 'application/octet-stream',
+          fileSize: data.fileSize || 0,
+          chunks: new Map(),
+          ttl: parseTtl(data.ttl)
+        });
+        break;
+      }
+
+      case 'media_chunk': {
+        const media = incomingMediaRef.current.get(data?.mediaId);
+        if (!media) return;
+
+        // Raw bytes from binary frames, base64 from JSON chunks
+        media.chunks.set(data.chunkIndex, data.bytes ?? fromBase64(data.chunkData));
+        media.totalChunks = data.totalChunks;
+        completeIncomingMedia(data.mediaId);
+        break;
+      }
+
+      case 'media_end':
+        completeIncomingMedia(data?.mediaURL);
+        break;
+
+      // The server dropped a chunk on the way to us, so the rest will not come
+      case 'transfer-aborted': {
+        const media = incomingMediaRef.current.get(data?.transferId);
+        if (!media) return;
+
+        incomingMediaRef.current.delete(data.transferId);
+        setError(`Could not receive ${media.fileName}: your connection was too slow`);
+        break;
+      }
+    }
+  }, [clientId, addMessage, updateReactions, completeIncomingMedia, sendReceipt]);
+
+  // Listen for messages from peers (data channel or server relay)
+  useEffect(() => {
+    const handleWebRTCMessage = (event: CustomEvent) => {
+      handleIncomingMessage(event.detail);
+    };
+
+    window.addEventListener('webrtc-message', handleWebRTCMessage as EventListener);
+    return () => window.removeEventListener('webrtc-message', handleWebRTCMessage as EventListener);
+  }, [handleIncomingMessage]);
+
+  useEffect(() => {
+    const handleRejected = (event: CustomEvent) => {
+      rollbackChange(event.detail.messageId);
+    };
+
+    window.addEventListener('message-rejected', handleRejected as EventListener);
+    return () => window.removeEventListener('message-rejected', handleRejected as EventListener);
+  }, [rollbackChange]);
+
+  return {
+    messages,
+    error,
+    sendText,
+    sendMedia,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    markRead
+  };
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Peer, PresenceState, WebRTCMessage } from '../types';
+
+// typing-start is repeated while the user keeps typing; receivers drop it if the repeats stop
+const TYPING_THROTTLE = 3000;
+const TYPING_IDLE = 4000;
+const TYPING_TIMEOUT = 6000;
+// No keyboard or pointer input for this long counts as idle
+const IDLE_AFTER = 2 * 60 * 1000;
+const IDLE_CHECK_INTERVAL = 15 * 1000;
+
+export function usePresence(
+  peers: Peer[],
+  isConnected: boolean,
+  sendMessage: (type: string, data: any, targetPeerId?: string) => Promise<void>
+) {
+  // Peer ID to the time their typing indicator lapses
+  const [typing, setTyping] = useState<Record<string, number>>({});
+  const [presence, setPresence] = useState<Record<string, PresenceState>>({});
+
+  const ownStateRef = useRef<PresenceState>('active');
+  const lastInputRef = useRef(Date.now());
+  const lastTypingSentRef = useRef(0);
+  const typingStopTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const knownPeersRef = useRef<Set<string>>(new Set());
+
+  // Typing and presence are best effort, so failures are only logged
+  const send = useCallback((type: string, data: any = {}, targetPeerId?: string) => {
+    sendMessage(type, data, targetPeerId).catch(error => {
+      console.warn(`Could not send ${type}:`, error);
+    });
+  }, [sendMessage]);
+
+  const setOwnState = useCallback((state: PresenceState) => {
+    if (ownStateRef.current === state) return;
+    ownStateRef.current = state;
+    send('presence', { state });
+  }, [send]);
+
+  const stopTyping = useCallback(() => {
+    if (typingStopTimeoutRef.current) {
+      clearTimeout(typingStopTimeoutRef.current);
+      typingStopTimeoutRef.current = null;
+    }
+    if (lastTypingSentRef.current) {
+      lastTypingSentRef.current = 0;
+      send('typing-stop');
+    }
+  }, [send]);
+
+  // Call on every keystroke in the message input
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastTypingSentRef.current >= TYPING_THROTTLE) {
+      lastTypingSentRef.current = now;
+      send('typing-start');
+    }
+
+    if (typingStopTimeoutRef.current) {
+      clearTimeout(typingStopTimeoutRef.current);
+    }
+    typingStopTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE);
+  }, [send, stopTyping]);
+
+  const handlePeerMessage = useCallback((message: WebRTCMessage) => {
+    const { type, data, from } = message;
+
+    switch (type) {
+      case 'typing-start':
+        setTyping(prev => ({ ...prev, [from]: Date.now() + TYPING_TIMEOUT }));
+        break;
+
+      case 'typing-stop':
+        setTyping(prev => {
+          const { [from]: _removed, ...rest } = prev;
+          return rest;
+        });
+        break;
+
+      case 'presence':
+        if (['active', 'idle', 'backgrounded'].includes(data?.state)) {
+          setPresence(prev => ({ ...prev, [from]: data.state }));
+        }
+        break;
+
+      // A message means they have finished typing it
+      case 'message':
+        setTyping(prev => {
+          const { [from]: _removed, ...rest } = prev;
+          return rest;
+        });
+        break;
+    }
+  }, []);
+
+  // Listen for typing and presence from peers (data channel or server relay)
+  useEffect(() => {
+    const handleWebRTCMessage = (event: CustomEvent) => {
+      handlePeerMessage(event.detail);
+    };
+
+    window.addEventListener('webrtc-message', handleWebRTCMessage as EventListener);
+    return () => window.removeEventListener('webrtc-message', handleWebRTCMessage as EventListener);
+  }, [handlePeerMessage]);
+
+  // Expire typing indicators whose sender went quiet without a typing-stop
+  useEffect(() => {
+    if (Object.keys(typing).length === 0) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setTyping(prev => {
+        const active = Object.entries(prev).filter(([, expiresAt]) => expiresAt > now);
+        return active.length === Object.keys(prev).length ? prev : Object.fromEntries(active);
+      });
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [typing]);
+
+  // Track our own state from page visibility and input
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        setOwnState('backgrounded');
+      } else {
+        lastInputRef.current = Date.now();
+        setOwnState('active');
+      }
+    };
+
+    const handleInput = () => {
+      lastInputRef.current = Date.now();
+      if (!document.hidden) {
+        setOwnState('active');
+      }
+    };
+
+    const interval = setInterval(() => {
+      if (!document.hidden && Date.now() - lastInputRef.current > IDLE_AFTER) {
+        setOwnState('idle');
+      }
+    }, IDLE_CHECK_INTERVAL);
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('keydown', handleInput);
+    window.addEventListener('pointerdown', handleInput);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('keydown', handleInput);
+      window.removeEventListener('pointerdown', handleInput);
+    };
+  }, [setOwnState]);
+
+  // New peers assume everyone is active, so tell them otherwise. Forget peers that left.
+  useEffect(() => {
+    const peerIds = new Set(peers.map(peer => peer.id));
+
+    if (isConnected && ownStateRef.current !== 'active') {
+      for (const peerId of peerIds) {
+        if (!knownPeersRef.current.has(peerId)) {
+          send('presence', { state: ownStateRef.current }, peerId);
+        }
+      }
+    }
+    knownPeersRef.current = peerIds;
+
+    const forget = <T,>(prev: Record<string, T>) => {
+      const kept = Object.entries(prev).filter(([peerId]) => peerIds.has(peerId));
+      return kept.length === Object.keys(prev).length ? prev : Object.fromEntries(kept);
+    };
+    setTyping(forget);
+    setPresence(forget);
+  }, [peers, isConnected, send]);
+
+  // Stop showing as typing when leaving the room
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return {
+    typingPeers: Object.keys(typing),
+    presence,
+    notifyTyping,
+    stopTyping
+  };
+}
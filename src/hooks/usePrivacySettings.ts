@@ -0,0 +1,40 @@
+import { useState, useCallback } from 'react';
+
+export interface PrivacySettings {
+  // Let senders know when their messages have been seen
+  readReceipts: boolean;
+}
+
+const STORAGE_KEY = 'privacySettings';
+
+const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  readReceipts: true
+};
+
+// Unlike the client ID, these are kept across sessions
+const loadPrivacySettings = (): PrivacySettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PRIVACY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PRIVACY_SETTINGS;
+  } catch {
+    return DEFAULT_PRIVACY_SETTINGS;
+  }
+};
+
+export function usePrivacySettings() {
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings>(loadPrivacySettings);
+
+  const updatePrivacySettings = useCallback((updates: Partial<PrivacySettings>) => {
+    setPrivacySettings(prev => {
+      const next = { ...prev, ...updates };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn('Could not save privacy settings:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  return { privacySettings, updatePrivacySettings };
+}
@@ -1,15 +1,61 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { WebRTCService } from '../services/webrtc';
 import { WebSocketService } from '../services/websocket';
+import { Capability, CloseCode, JoinRequest, Peer, RoomExpiry, RoomSettings, WebRTCMessage } from '../types';
+import { deriveEnvelopeKey, openEnvelope, sealEnvelope } from '../services/envelope';
+import { MediaChunkFrame } from '../../shared/mediaFrame';
 
-export function useWebRTC(roomId: string, clientId: string) {
-  const [peers, setPeers] = useState<string[]>([]);
+// Media transfers always go through the server relay: the iOS app only speaks
+// the WebSocket protocol and reassembles media from 64KB chunks
+const RELAY_ONLY_TYPES = new Set(['media_start', 'media_chunk', 'media_end']);
+
+// Messages that change what a room's backlog holds
+const BACKLOG_TYPES = new Set(['message', 'message-edit', 'message-delete']);
+
+const SLOW_CONSUMER_ERROR = 'Your connection could not keep up with the room, so some messages may have been missed.';
+
+// Matches the server's first expiry warning
+const EXPIRY_WARNING_WINDOW = 60 * 1000;
+
+export function useWebRTC(roomId: string, clientId: string, passphrase?: string) {
+  const [peers, setPeers] = useState<Peer[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [connectionState, setConnectionState] = useState<'connecting' | 'connected' | 'disconnected' | 'failed'>('connecting');
   const [error, setError] = useState<string | null>(null);
+  const [roomSettings, setRoomSettings] = useState<RoomSettings | null>(null);
+  const [ownerId, setOwnerId] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  // Set while this client waits in the lobby for the owner's approval
+  const [waitingApproval, setWaitingApproval] = useState<{ label: string; expiresAt: number } | null>(null);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  // Set once the server warns that the room is about to close
+  const [expiryWarning, setExpiryWarning] = useState<RoomExpiry | null>(null);
+  const [roomExpired, setRoomExpired] = useState(false);
+  // Negotiated with the server; features outside it are hidden rather than rejected
+  const [features, setFeatures] = useState<Capability[]>([]);
 
   const webrtcRef = useRef<WebRTCService | null>(null);
   const websocketRef = useRef<WebSocketService | null>(null);
+  const peersRef = useRef<Peer[]>([]);
+  // Set in rooms that keep a backlog; chat messages are then sealed for the server to store
+  const envelopeKeyRef = useRef<Promise<CryptoKey> | null>(null);
+
+  useEffect(() => {
+    peersRef.current = peers;
+  }, [peers]);
+
+  const updatePeer = useCallback((peerId: string, updates: Partial<Peer>) => {
+    setPeers(prev => prev.map(peer =>
+      peer.id === peerId ? { ...peer, ...updates } : peer
+    ));
+  }, []);
+
+  const dispatchMessage = useCallback((message: WebRTCMessage) => {
+    updatePeer(message.from, { lastSeen: Date.now() });
+    window.dispatchEvent(new CustomEvent('webrtc-message', {
+      detail: message
+    }));
+  }, [updatePeer]);
 
   const initializeConnections = useCallback(async () => {
     try {
@@ -18,50 +64,83 @@ export function useWebRTC(roomId: string, clientId: string) {
 
       // Initialize WebRTC service
       webrtcRef.current = new WebRTCService(clientId);
-      
+
       // Initialize WebSocket service
-      websocketRef.current = new WebSocketService(roomId, clientId);
+      websocketRef.current = new WebSocketService(roomId, clientId, passphrase);
 
       // Set up WebRTC event listeners
       const webrtc = webrtcRef.current;
-      
-      webrtc.addEventListener('peer-connected', (event: CustomEvent) => {
+
+      webrtc.addEventListener('peer-connected', ((event: CustomEvent) => {
         console.log('Peer connected:', event.detail.peerId);
-        setPeers(prev => {
-          if (!prev.includes(event.detail.peerId)) {
-            return [...prev, event.detail.peerId];
-          }
-          return prev;
-        });
-      });
+        updatePeer(event.detail.peerId, { connectionState: 'connected', lastSeen: Date.now() });
+      }) as EventListener);
 
-      webrtc.addEventListener('peer-disconnected', (event: CustomEvent) => {
+      webrtc.addEventListener('peer-disconnected', ((event: CustomEvent) => {
         console.log('Peer disconnected:', event.detail.peerId);
-        setPeers(prev => prev.filter(id => id !== event.detail.peerId));
-      });
+        updatePeer(event.detail.peerId, { connectionState: 'disconnected' });
+      }) as EventListener);
 
-      webrtc.addEventListener('message', (event: CustomEvent) => {
-        const { message } = event.detail;
-        window.dispatchEvent(new CustomEvent('webrtc-message', {
-          detail: message
-        }));
-      });
+      webrtc.addEventListener('connection-state-change', ((event: CustomEvent) => {
+        const { peerId, state } = event.detail;
+        updatePeer(peerId, { connectionState: state });
+      }) as EventListener);
 
-      webrtc.addEventListener('ice-candidate', async (event: CustomEvent) => {
+      webrtc.addEventListener('message', ((event: CustomEvent) => {
+        const { peerId, message } = event.detail;
+        // Trust the data channel we received it on rather than the claimed sender
+        dispatchMessage({
+          type: message.type,
+          data: message.data,
+          from: peerId,
+          timestamp: Date.now()
+        });
+      }) as EventListener);
+
+      webrtc.addEventListener('ice-candidate', ((event: CustomEvent) => {
         const { peerId, candidate } = event.detail;
         websocketRef.current?.sendSignalingMessage('ice-candidate', peerId, candidate);
-      });
+      }) as EventListener);
 
       // Set up WebSocket event listeners
       const websocket = websocketRef.current;
 
-      websocket.addEventListener('init-success', async (event: CustomEvent) => {
-        console.log('WebSocket initialized, existing peers:', event.detail.peers);
+      websocket.addEventListener('init-success', async (event: Event) => {
+        const { peers: existingPeers = [], settings, ownerId, locked, expiry, resumed, features } = (event as CustomEvent).detail as {
+          peers?: string[];
+          settings?: RoomSettings;
+          ownerId?: string | null;
+          locked?: boolean;
+          expiry?: { remaining: number; reason: RoomExpiry['reason'] };
+          resumed?: boolean;
+          features: Capability[];
+        };
+        console.log('WebSocket initialized, existing peers:', existingPeers);
+        setRoomSettings(settings ?? null);
+        setFeatures(features);
+        if (settings?.backlog && passphrase && !envelopeKeyRef.current) {
+          envelopeKeyRef.current = deriveEnvelopeKey(roomId, passphrase);
+        }
+        setOwnerId(ownerId ?? null);
+        setIsLocked(!!locked);
+        // Joining late into a room that was already warned
+        setExpiryWarning(expiry && expiry.remaining <= EXPIRY_WARNING_WINDOW
+          ? { expiresAt: Date.now() + expiry.remaining, reason: expiry.reason }
+          : null);
+        setWaitingApproval(null);
         setIsConnected(true);
         setConnectionState('connected');
+        setError(null);
+        // After resuming, data channels that survived the dropped connection are kept
+        const connectedPeers = resumed ? webrtc.getConnectedPeers() : [];
+        setPeers(existingPeers.map(peerId => ({
+          id: peerId,
+          connectionState: connectedPeers.includes(peerId) ? 'connected' : 'new',
+          lastSeen: Date.now()
+        })));
 
         // Initiate connections to existing peers
-        for (const peerId of event.detail.peers) {
+        for (const peerId of existingPeers.filter(id => !connectedPeers.includes(id))) {
           try {
             const offer = await webrtc.createOffer(peerId);
             websocket.sendSignalingMessage('offer', peerId, offer);
@@ -71,33 +150,95 @@ export function useWebRTC(roomId: string, clientId: string) {
         }
       });
 
-      websocket.addEventListener('peer-joined', async (event: CustomEvent) => {
+      websocket.addEventListener('peer-joined', ((event: CustomEvent) => {
         const { peerId } = event.detail;
         console.log('New peer joined:', peerId);
-        
+        setPeers(prev => prev.some(peer => peer.id === peerId)
+          ? prev
+          : [...prev, { id: peerId, connectionState: 'new', lastSeen: Date.now() }]
+        );
+
         // We don't initiate connection here, we wait for their offer
-      });
+      }) as EventListener);
 
-      websocket.addEventListener('peer-left', (event: CustomEvent) => {
+      websocket.addEventListener('peer-left', ((event: CustomEvent) => {
         const { peerId } = event.detail;
         console.log('Peer left:', peerId);
-        setPeers(prev => prev.filter(id => id !== peerId));
-      });
+        setPeers(prev => prev.filter(peer => peer.id !== peerId));
+      }) as EventListener);
+
+      // Opening envelopes is asynchronous, so relayed messages are handled one
+      // at a time to keep them in order
+      let relayQueue = Promise.resolve();
+      // Media ID → sender, for binary chunk frames, which do not name their sender
+      const mediaSenders = new Map<string, string>();
+
+      websocket.addEventListener('relay-message', ((event: CustomEvent) => {
+        const { type, clientId: from, roomId: _roomId, envelope, seq: _seq, ...data } = event.detail.message;
+        if (!from || from === clientId) return;
+
+        if (type === 'media_start') mediaSenders.set(data.mediaURL, from);
+        if (type === 'media_end') mediaSenders.delete(data.mediaURL);
+        if (type === 'transfer-aborted') mediaSenders.delete(data.transferId);
+
+        relayQueue = relayQueue.then(async () => {
+          // Message IDs are inside the envelope too, so replayed copies are recognised
+          const payload = envelope && envelopeKeyRef.current
+            ? await openEnvelope(await envelopeKeyRef.current, envelope)
+            : null;
+          dispatchMessage({ type, data: payload ? { ...data, ...payload } : data, from, timestamp: Date.now() });
+        });
+      }) as EventListener);
+
+      websocket.addEventListener('media-frame', ((event: CustomEvent) => {
+        const { mediaId, chunkIndex, totalChunks, data } = event.detail.chunk as MediaChunkFrame;
+
+        const from = mediaSenders.get(mediaId);
+        if (!from) return;
+
+        relayQueue = relayQueue.then(() => {
+          dispatchMessage({ type: 'media_chunk', data: { mediaId, chunkIndex, totalChunks, bytes: data }, from, timestamp: Date.now() });
+        });
+      }) as EventListener);
+
+      websocket.addEventListener('backlog', ((event: CustomEvent) => {
+        const { messages } = event.detail as { messages: { clientId: string; envelope: string; ttl?: number }[] };
+
+        relayQueue = relayQueue.then(async () => {
+          if (!envelopeKeyRef.current) return;
+          const key = await envelopeKeyRef.current;
+
+          for (const message of messages) {
+            const payload = await openEnvelope(key, message.envelope);
+            if (!payload) {
+              console.warn('Skipping backlog message that could not be opened');
+              continue;
+            }
+            dispatchMessage({
+              type: 'message',
+              // The server's ttl is what is left of the message's time, not the time it was sent with
+              data: { ...payload, history: true, ...(message.ttl !== undefined ? { ttl: message.ttl } : {}) },
+              from: message.clientId,
+              timestamp: Date.now()
+            });
+          }
+        });
+      }) as EventListener);
+
+      websocket.addEventListener('signaling', async (event: Event) => {
+        const { type, from, payload } = (event as CustomEvent).detail;
 
-      websocket.addEventListener('signaling', async (event: CustomEvent) => {
-        const { type, from, payload } = event.detail;
-        
         try {
           switch (type) {
             case 'offer':
               const answer = await webrtc.createAnswer(from, payload);
               websocket.sendSignalingMessage('answer', from, answer);
               break;
-              
+
             case 'answer':
               await webrtc.handleAnswer(from, payload);
               break;
-              
+
             case 'ice-candidate':
               await webrtc.addIceCandidate(from, payload);
               break;
@@ -107,21 +248,79 @@ export function useWebRTC(roomId: string, clientId: string) {
         }
       });
 
-      websocket.addEventListener('disconnected', () => {
+      websocket.addEventListener('disconnected', ((event: CustomEvent) => {
         setIsConnected(false);
         setConnectionState('disconnected');
-      });
+        // The server gave up on a backed-up connection; reconnecting starts it afresh
+        if (event.detail.code === CloseCode.SLOW_CONSUMER) {
+          setError(SLOW_CONSUMER_ERROR);
+        }
+      }) as EventListener);
 
       websocket.addEventListener('reconnected', () => {
         setIsConnected(true);
         setConnectionState('connected');
       });
 
-      websocket.addEventListener('error', (event: CustomEvent) => {
-        setError(event.detail.message);
+      websocket.addEventListener('reconnect-failed', () => {
+        setError('Lost connection to the server');
         setConnectionState('failed');
       });
 
+      websocket.addEventListener('owner-changed', ((event: CustomEvent) => {
+        setOwnerId(event.detail.ownerId);
+      }) as EventListener);
+
+      websocket.addEventListener('waiting-approval', ((event: CustomEvent) => {
+        setWaitingApproval(event.detail);
+      }) as EventListener);
+
+      websocket.addEventListener('join-request', ((event: CustomEvent) => {
+        const request: JoinRequest = event.detail;
+        setJoinRequests(prev => [...prev.filter(existing => existing.clientId !== request.clientId), request]);
+      }) as EventListener);
+
+      websocket.addEventListener('join-request-resolved', ((event: CustomEvent) => {
+        setJoinRequests(prev => prev.filter(request => request.clientId !== event.detail.clientId));
+      }) as EventListener);
+
+      websocket.addEventListener('room-locked', ((event: CustomEvent) => {
+        setIsLocked(event.detail.locked);
+      }) as EventListener);
+
+      // The server sends the remaining time rather than a timestamp, so clock skew does not matter
+      websocket.addEventListener('room-expiring', ((event: CustomEvent) => {
+        const { remaining, reason } = event.detail;
+        setExpiryWarning({ expiresAt: Date.now() + remaining, reason });
+      }) as EventListener);
+
+      websocket.addEventListener('room-extended', (() => {
+        setExpiryWarning(null);
+      }) as EventListener);
+
+      // Kicked, banned or the room expired; the service does not reconnect
+      websocket.addEventListener('removed', ((event: CustomEvent) => {
+        webrtc.close();
+        setPeers([]);
+        setWaitingApproval(null);
+        setExpiryWarning(null);
+        setRoomExpired(event.detail.code === CloseCode.ROOM_EXPIRED);
+        setError(event.detail.reason || 'You were removed from the room');
+        setConnectionState('failed');
+      }) as EventListener);
+
+      websocket.addEventListener('error', ((event: CustomEvent) => {
+        setError(event.detail.message);
+        // A rejected reaction, edit or unsend names its message so the chat can undo it
+        if (event.detail.messageId) {
+          window.dispatchEvent(new CustomEvent('message-rejected', {
+            detail: { messageId: event.detail.messageId }
+          }));
+        }
+        // Errors after joining (e.g. a rejected message) leave the connection usable
+        setConnectionState(prev => prev === 'connected' ? prev : 'failed');
+      }) as EventListener);
+
       // Connect to WebSocket
       await websocket.connect();
 
@@ -130,12 +329,100 @@ export function useWebRTC(roomId: string, clientId: string) {
       setError(error instanceof Error ? error.message : 'Connection failed');
       setConnectionState('failed');
     }
-  }, [roomId, clientId]);
+  }, [roomId, clientId, passphrase, updatePeer, dispatchMessage]);
 
   const sendMessage = useCallback(async (type: string, data: any, targetPeerId?: string) => {
-    if (webrtcRef.current) {
-      webrtcRef.current.sendMessage(type, data, targetPeerId);
+    const webrtc = webrtcRef.current;
+    const websocket = websocketRef.current;
+
+    // Use the data channels only when every peer in the room is reachable
+    // through one; otherwise fall back to the server relay so that relay-only
+    // peers (e.g. the iOS app) still receive the message
+    const connectedPeers = webrtc?.getConnectedPeers() || [];
+    const recipients = targetPeerId ? [targetPeerId] : peersRef.current.map(peer => peer.id);
+    // In backlog rooms chat goes through the relay as well, so the server can keep its envelopes up to date
+    const envelopeKey = BACKLOG_TYPES.has(type) ? envelopeKeyRef.current : null;
+    const canUseDataChannel = !RELAY_ONLY_TYPES.has(type) &&
+      !envelopeKey &&
+      recipients.length > 0 &&
+      recipients.every(peerId => connectedPeers.includes(peerId));
+
+    if (webrtc && canUseDataChannel) {
+      webrtc.sendMessage(type, data, targetPeerId);
+      return;
+    }
+
+    if (!websocket?.isConnected()) {
+      throw new Error('Not connected to the server');
+    }
+
+    if (!websocket.supports(type)) {
+      throw new Error(`This server does not support ${type} messages`);
+    }
+
+    if (type === 'media_chunk') {
+      websocket.sendMediaChunk(data);
+      return;
     }
+
+    // In backlog rooms the text travels only inside the envelope
+    const payload = envelopeKey && type !== 'message-delete'
+      ? {
+          messageId: data.messageId,
+          messageType: data.messageType,
+          timestamp: data.timestamp,
+          ...(data.ttl ? { ttl: data.ttl } : {}),
+          envelope: await sealEnvelope(await envelopeKey, data)
+        }
+      : data;
+
+    websocket.send({ type, roomId, clientId, ...payload });
+  }, [roomId, clientId]);
+
+  // Owner controls; the server rejects them from anyone but the owner
+  const sendOwnerAction = useCallback((message: { type: string; targetId?: string; locked?: boolean }) => {
+    if (!websocketRef.current?.isConnected()) {
+      setError('Not connected to the server');
+      return;
+    }
+    websocketRef.current.send(message);
+  }, []);
+
+  const kickPeer = useCallback((peerId: string) => {
+    sendOwnerAction({ type: 'kick', targetId: peerId });
+  }, [sendOwnerAction]);
+
+  const banPeer = useCallback((peerId: string) => {
+    sendOwnerAction({ type: 'ban', targetId: peerId });
+  }, [sendOwnerAction]);
+
+  const transferOwnership = useCallback((peerId: string) => {
+    sendOwnerAction({ type: 'transfer-ownership', targetId: peerId });
+  }, [sendOwnerAction]);
+
+  const admitPeer = useCallback((peerId: string) => {
+    sendOwnerAction({ type: 'admit', targetId: peerId });
+  }, [sendOwnerAction]);
+
+  const denyPeer = useCallback((peerId: string) => {
+    sendOwnerAction({ type: 'deny', targetId: peerId });
+  }, [sendOwnerAction]);
+
+  const setRoomLocked = useCallback((locked: boolean) => {
+    sendOwnerAction({ type: 'lock-room', locked });
+  }, [sendOwnerAction]);
+
+  // Any participant can extend the room, within the limits the server enforces
+  const extendRoom = useCallback(() => {
+    if (!websocketRef.current?.isConnected()) {
+      setError('Not connected to the server');
+      return;
+    }
+    websocketRef.current.send({ type: 'extend-room' });
+  }, []);
+
+  const clearError = useCallback(() => {
+    setError(null);
   }, []);
 
   // Initialize connections on mount
@@ -149,20 +436,27 @@ export function useWebRTC(roomId: string, clientId: string) {
     };
   }, [initializeConnections]);
 
-  // Update connection state based on peer connections
-  useEffect(() => {
-    if (isConnected && peers.length > 0) {
-      setConnectionState('connected');
-    } else if (isConnected) {
-      setConnectionState('connected');
-    }
-  }, [isConnected, peers.length]);
-
   return {
     peers,
     isConnected,
     connectionState,
     error,
-    sendMessage
+    roomSettings,
+    ownerId,
+    isLocked,
+    waitingApproval,
+    joinRequests,
+    expiryWarning,
+    roomExpired,
+    features,
+    sendMessage,
+    extendRoom,
+    kickPeer,
+    banPeer,
+    transferOwnership,
+    admitPeer,
+    denyPeer,
+    setRoomLocked,
+    clearError
   };
 }
@@ -0,0 +1,141 @@
+import { RoomSettings } from '../types';
+
+export type RoomApiErrorCode =
+  | 'not-found'
+  | 'full'
+  | 'passphrase-required'
+  | 'invalid-passphrase'
+  | 'banned'
+  | 'locked'
+  | 'rate-limited'
+  | 'unreachable'
+  | 'invalid'
+  | 'unknown';
+
+export class RoomApiError extends Error {
+  code: RoomApiErrorCode;
+  // Seconds until a rate-limited request may be retried
+  retryAfter?: number;
+
+  constructor(code: RoomApiErrorCode, message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'RoomApiError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export interface RoomStatus {
+  roomId: string;
+  peerCount: number;
+  maxPeers: number;
+  isFull: boolean;
+  createdAt: number;
+  settings: RoomSettings;
+  passphraseRequired: boolean;
+  locked: boolean;
+}
+
+// How the server generates room codes, so input can be validated locally
+export interface RoomCodeFormat {
+  format: 'alphanumeric' | 'words';
+  pattern: string;
+  example: string;
+  maxLength: number;
+  caseSensitive: boolean;
+}
+
+// Used until the server has advertised its format, and for older servers
+export const DEFAULT_ROOM_CODE_FORMAT: RoomCodeFormat = {
+  format: 'alphanumeric',
+  pattern: '^[A-Z0-9]{6}$',
+  example: 'ABC123',
+  maxLength: 6,
+  caseSensitive: false
+};
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...init?.headers
+      }
+    });
+  } catch (error) {
+    throw new RoomApiError('unreachable', 'Unable to reach the server. Check your connection and try again.');
+  }
+
+  const body = await response.json().catch(() => ({}));
+
+  if (response.ok) {
+    return body as T;
+  }
+
+  switch (response.status) {
+    case 400:
+      throw new RoomApiError('invalid', body.error || 'Invalid request');
+    case 401:
+      throw new RoomApiError('passphrase-required', 'This room requires a passphrase.');
+    case 403:
+      if (body.code === 'BANNED') {
+        throw new RoomApiError('banned', 'You have been banned from this room.');
+      }
+      throw new RoomApiError('invalid-passphrase', 'Incorrect passphrase. Please try again.');
+    case 404:
+      throw new RoomApiError('not-found', 'Room not found. Check the code and try again.');
+    case 409:
+      throw new RoomApiError('full', 'This room is full.');
+    case 423:
+      throw new RoomApiError('locked', 'This room is locked by its owner.');
+    case 429: {
+      const retryAfter = Number(response.headers.get('Retry-After')) || body.retryAfter || 1;
+      throw new RoomApiError(
+        'rate-limited',
+        `Too many requests. Try again in ${retryAfter} second${retryAfter !== 1 ? 's' : ''}.`,
+        retryAfter
+      );
+    }
+    case 502:
+    case 503:
+    case 504:
+      throw new RoomApiError('unreachable', 'The server is unavailable right now. Please try again shortly.');
+    default:
+      throw new RoomApiError('unknown', body.error || `Request failed with status ${response.status}`);
+  }
+}
+
+export interface CreateRoomOptions {
+  // The creator becomes the room owner
+  clientId: string;
+  settings?: Partial<RoomSettings>;
+  passphrase?: string;
+}
+
+export function createRoom({
+  clientId,
+  settings = {},
+  passphrase
+}: CreateRoomOptions): Promise<{ roomId: string; settings: RoomSettings; passphraseRequired: boolean; identityToken?: string }> {
+  return request('/api/create-room', {
+    method: 'POST',
+    body: JSON.stringify({ ...settings, clientId, passphrase })
+  });
+}
+
+export function joinRoom(roomId: string, clientId: string, passphrase?: string): Promise<{ peers: string[] }> {
+  return request('/api/join-room', {
+    method: 'POST',
+    body: JSON.stringify({ roomId, clientId, passphrase })
+  });
+}
+
+export function getRoomStatus(roomId: string): Promise<RoomStatus> {
+  return request(`/api/room/${encodeURIComponent(roomId)}/status`);
+}
+
+export function getRoomCodeFormat(): Promise<RoomCodeFormat> {
+  return request('/api/room-code-format');
+}
@@ -0,0 +1,79 @@
+import { MessageQuote } from '../types';
+
+// Chat messages kept in a room's backlog are stored by the server as
+// envelopes: AES-GCM ciphertext under a key derived from the room code and
+// passphrase. The server stores only a hash of the passphrase, so saved room
+// data and logs hold no readable text, but members send the passphrase itself
+// when joining, so a server that records it could derive the key. Relayed
+// messages carry their text only inside the envelope.
+
+export interface EnvelopePayload {
+  messageId: string;
+  content: string;
+  messageType: string;
+  timestamp: number;
+  replyTo?: MessageQuote;
+  ttl?: number;
+}
+
+const PBKDF2_ITERATIONS = 100000;
+const IV_LENGTH = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export async function deriveEnvelopeKey(roomId: string, passphrase: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode(`silento-backlog:${roomId}`), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function sealEnvelope(key: CryptoKey, payload: EnvelopePayload): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(payload)));
+
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return toBase64(sealed);
+}
+
+// Returns null for envelopes that were not sealed with this key or are malformed
+export async function openEnvelope(key: CryptoKey, envelope: string): Promise<EnvelopePayload | null> {
+  try {
+    const sealed = fromBase64(envelope);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.subarray(0, IV_LENGTH) },
+      key,
+      sealed.subarray(IV_LENGTH)
+    );
+
+    const payload = JSON.parse(decoder.decode(plaintext));
+    return typeof payload?.messageId === 'string' && typeof payload.content === 'string' ? payload : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,15 +1,90 @@
+import { Capability, CloseCode } from '../types';
+import { MESSAGE_CAPABILITIES, PROTOCOL_VERSION, ServerMessage, validateServerMessage } from '../../shared/protocol';
+import { MediaChunkFrame, decodeMediaChunkFrame, encodeMediaChunkFrame } from '../../shared/mediaFrame';
+
+// Everything the web client understands; the server answers with the subset it supports
+export const CLIENT_CAPABILITIES: Capability[] = [
+  'chat',
+  'media',
+  'webrtc',
+  'resume',
+  'backlog',
+  'room-expiry',
+  'typing',
+  'presence',
+  'receipts',
+  'message-changes',
+  'reactions',
+  'binary-media'
+];
+
+const isClientCapability = (feature: string): feature is Capability =>
+  (CLIENT_CAPABILITIES as string[]).includes(feature);
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+// A ping goes out this often, and the server counts as stalled if nothing at
+// all arrives within the timeout after one. Browsers answer the server's
+// protocol-level pings themselves but cannot send their own.
+const HEARTBEAT_INTERVAL = 15 * 1000;
+const HEARTBEAT_TIMEOUT = 10 * 1000;
+
+// Close codes after which reconnecting would only be rejected again
+const TERMINAL_CLOSE_CODES: number[] = [
+  CloseCode.KICKED,
+  CloseCode.BANNED,
+  CloseCode.JOIN_DENIED,
+  CloseCode.ROOM_EXPIRED,
+  CloseCode.SESSION_RESUMED,
+  CloseCode.UNSUPPORTED_PROTOCOL,
+  CloseCode.CLIENT_ID_TAKEN
+];
+
+// Identity tokens are kept for the tab's session, like the client ID they belong to
+const identityStorageKey = (roomId: string, clientId: string) => `identityToken:${roomId}:${clientId}`;
+
+export function loadIdentityToken(roomId: string, clientId: string): string | null {
+  return sessionStorage.getItem(identityStorageKey(roomId, clientId));
+}
+
+export function saveIdentityToken(roomId: string, clientId: string, token: string): void {
+  sessionStorage.setItem(identityStorageKey(roomId, clientId), token);
+}
+
 export class WebSocketService {
   private ws: WebSocket | null = null;
   private roomId: string;
   private clientId: string;
+  // Kept in memory only, so reconnects can re-prove access to protected rooms
+  private passphrase?: string;
+  // Issued by the server on every init; lets a reconnect take back our slot in the room
+  private resumeToken: string | null = null;
+  // Signed by the server for our client ID in this room. The server only lets
+  // us back in under the ID with it, e.g. from a reloaded page.
+  private identityToken: string | null;
+  // Sequence number of the newest backlog message seen, so a reconnect only replays what was missed
+  private backlogCursor: number | null = null;
+  // Negotiated in the last init; servers that predate negotiation are assumed to support everything
+  private features: Capability[] = CLIENT_CAPABILITIES;
   private eventTarget = new EventTarget();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
-  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  // When the oldest unanswered ping was sent; any message from the server answers it
+  private pingSentAt: number | null = null;
 
-  constructor(roomId: string, clientId: string) {
+  constructor(roomId: string, clientId: string, passphrase?: string) {
     this.roomId = roomId;
     this.clientId = clientId;
+    this.passphrase = passphrase;
+    this.identityToken = loadIdentityToken(roomId, clientId);
   }
 
   connect(): Promise<void> {
@@ -19,25 +94,44 @@ export class WebSocketService {
         const wsUrl = `${protocol}//${window.location.host}/ws`;
         
         this.ws = new WebSocket(wsUrl);
+        this.ws.binaryType = 'arraybuffer';
 
         this.ws.onopen = () => {
           console.log('WebSocket connected');
           this.reconnectAttempts = 0;
+          this.startHeartbeat();
           
           // Initialize connection with room and client info
           this.send({
             type: 'init',
             roomId: this.roomId,
-            clientId: this.clientId
+            clientId: this.clientId,
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: CLIENT_CAPABILITIES,
+            ...(this.passphrase ? { passphrase: this.passphrase } : {}),
+            ...(this.resumeToken ? { resumeToken: this.resumeToken } : {}),
+            ...(this.identityToken ? { identityToken: this.identityToken } : {}),
+            ...(this.backlogCursor !== null ? { backlogCursor: this.backlogCursor } : {})
           });
           
           resolve();
         };
 
         this.ws.onmessage = (event) => {
+          this.pingSentAt = null;
+
+          if (event.data instanceof ArrayBuffer) {
+            this.handleFrame(new Uint8Array(event.data));
+            return;
+          }
+
           try {
-            const message = JSON.parse(event.data);
-            this.handleMessage(message);
+            const result = validateServerMessage(JSON.parse(event.data));
+            if (!result.ok) {
+              console.warn('Dropping invalid WebSocket message:', result.errors);
+              return;
+            }
+            this.handleMessage(result.message);
           } catch (error) {
             console.error('Error parsing WebSocket message:', error);
           }
@@ -45,7 +139,18 @@ export class WebSocketService {
 
         this.ws.onclose = (event) => {
           console.log('WebSocket disconnected:', event.code, event.reason);
-          this.eventTarget.dispatchEvent(new CustomEvent('disconnected'));
+          this.stopHeartbeat();
+          this.eventTarget.dispatchEvent(new CustomEvent('disconnected', {
+            detail: { code: event.code }
+          }));
+
+          if (TERMINAL_CLOSE_CODES.includes(event.code)) {
+            this.resumeToken = null;
+            this.eventTarget.dispatchEvent(new CustomEvent('removed', {
+              detail: { code: event.code, reason: event.reason }
+            }));
+            return;
+          }
           
           // Attempt to reconnect if not intentionally closed
           if (event.code !== 1000 && this.reconnectAttempts < this.maxReconnectAttempts) {
@@ -72,6 +177,34 @@ export class WebSocketService {
     }
   }
 
+  // Raw bytes in a binary frame where the server supports it, base64 in JSON otherwise
+  sendMediaChunk(chunk: MediaChunkFrame): void {
+    if (!this.features.includes('binary-media')) {
+      this.send({
+        type: 'media_chunk',
+        roomId: this.roomId,
+        clientId: this.clientId,
+        mediaId: chunk.mediaId,
+        chunkIndex: chunk.chunkIndex,
+        totalChunks: chunk.totalChunks,
+        chunkData: toBase64(chunk.data)
+      });
+      return;
+    }
+
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(encodeMediaChunkFrame(chunk));
+    } else {
+      console.warn('WebSocket not connected, media chunk not sent:', chunk.mediaId);
+    }
+  }
+
+  // Whether the server accepts this message type on the current connection
+  supports(type: string): boolean {
+    const capability = MESSAGE_CAPABILITIES[type];
+    return !capability || this.features.includes(capability);
+  }
+
   sendSignalingMessage(type: string, targetPeerId: string, payload: any): void {
     this.send({
       type,
@@ -90,6 +223,8 @@ export class WebSocketService {
   }
 
   close(): void {
+    this.stopHeartbeat();
+
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
@@ -101,11 +236,68 @@ export class WebSocketService {
     }
   }
 
-  private handleMessage(message: any): void {
+  private handleMessage(message: ServerMessage): void {
     switch (message.type) {
       case 'init-success':
+        this.resumeToken = message.resumeToken ?? null;
+        if (message.identityToken) {
+          this.identityToken = message.identityToken;
+          saveIdentityToken(this.roomId, this.clientId, message.identityToken);
+        }
+        this.features = message.features ? message.features.filter(isClientCapability) : CLIENT_CAPABILITIES;
         this.eventTarget.dispatchEvent(new CustomEvent('init-success', {
-          detail: { peers: message.peers }
+          detail: {
+            peers: message.peers,
+            settings: message.settings,
+            ownerId: message.ownerId,
+            locked: message.locked,
+            expiry: message.expiry,
+            resumed: !!message.resumed,
+            features: this.features
+          }
+        }));
+        break;
+
+      case 'room-expiring':
+        this.eventTarget.dispatchEvent(new CustomEvent('room-expiring', {
+          detail: { remaining: message.remaining, reason: message.reason }
+        }));
+        break;
+
+      case 'room-extended':
+        this.eventTarget.dispatchEvent(new CustomEvent('room-extended', {
+          detail: { extendedBy: message.extendedBy }
+        }));
+        break;
+
+      case 'owner-changed':
+        this.eventTarget.dispatchEvent(new CustomEvent('owner-changed', {
+          detail: { ownerId: message.ownerId }
+        }));
+        break;
+
+      case 'waiting-approval':
+        this.eventTarget.dispatchEvent(new CustomEvent('waiting-approval', {
+          detail: { label: message.label, expiresAt: message.expiresAt }
+        }));
+        break;
+
+      // Lobby requests, only sent to the room owner
+      case 'join-request':
+        this.eventTarget.dispatchEvent(new CustomEvent('join-request', {
+          detail: { clientId: message.clientId, label: message.label, expiresAt: message.expiresAt }
+        }));
+        break;
+
+      case 'join-request-resolved':
+        this.eventTarget.dispatchEvent(new CustomEvent('join-request-resolved', {
+          detail: { clientId: message.clientId, outcome: message.outcome }
+        }));
+        break;
+
+      case 'room-locked':
+        this.eventTarget.dispatchEvent(new CustomEvent('room-locked', {
+          detail: { locked: message.locked }
         }));
         break;
 
@@ -134,15 +326,105 @@ export class WebSocketService {
         }));
         break;
 
+      // Replayed chat envelopes, oldest first
+      case 'backlog':
+        this.advanceBacklogCursor(message.messages[message.messages.length - 1]?.seq);
+        this.eventTarget.dispatchEvent(new CustomEvent('backlog', {
+          detail: { messages: message.messages }
+        }));
+        break;
+
+      // Chat, media, typing, presence, receipts, reactions and message changes relayed by the server,
+      // and media the server could not deliver in full
+      // (chat and media also used by the iOS app)
+      case 'message':
+      case 'media_start':
+      case 'media_chunk':
+      case 'media_end':
+      case 'transfer-aborted':
+      case 'typing-start':
+      case 'typing-stop':
+      case 'presence':
+      case 'receipt':
+      case 'message-edit':
+      case 'message-delete':
+      case 'reaction':
+        this.advanceBacklogCursor('seq' in message ? message.seq : undefined);
+        this.eventTarget.dispatchEvent(new CustomEvent('relay-message', {
+          detail: { message }
+        }));
+        break;
+
+      // Answers our heartbeat; receiving it is all that matters
+      case 'pong':
+        break;
+
       case 'error':
-        console.error('WebSocket error message:', message.message);
+        console.error('WebSocket error message:', message.code ?? '', message.message);
         this.eventTarget.dispatchEvent(new CustomEvent('error', {
-          detail: { message: message.message }
+          detail: { message: message.message, code: message.code, errors: message.errors, messageId: message.messageId }
         }));
         break;
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatInterval = setInterval(() => {
+      if (this.pingSentAt !== null && Date.now() - this.pingSentAt > HEARTBEAT_TIMEOUT) {
+        this.handleStall();
+        return;
+      }
+
+      this.pingSentAt ??= Date.now();
+      this.send({ type: 'ping' });
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    this.pingSentAt = null;
+  }
+
+  // A half-open connection may never fire onclose, so it is abandoned rather than closed cleanly
+  private handleStall(): void {
+    console.warn('Server stopped responding, reconnecting');
+    this.stopHeartbeat();
+
+    if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.onmessage = null;
+      this.ws.close();
+      this.ws = null;
+    }
+
+    this.eventTarget.dispatchEvent(new CustomEvent('disconnected', {
+      detail: { code: 1006 }
+    }));
+    if (this.reconnectAttempts < this.maxReconnectAttempts) {
+      this.attemptReconnect();
+    }
+  }
+
+  // Binary frames carry media chunks; the sender is known from the transfer's media_start
+  private handleFrame(frame: Uint8Array): void {
+    const chunk = decodeMediaChunkFrame(frame);
+    if (!chunk) {
+      console.warn('Dropping malformed media frame');
+      return;
+    }
+
+    this.eventTarget.dispatchEvent(new CustomEvent('media-frame', {
+      detail: { chunk }
+    }));
+  }
 
-      default:
-        console.warn('Unknown message type:', message.type);
+  private advanceBacklogCursor(seq: unknown): void {
+    if (typeof seq === 'number' && (this.backlogCursor === null || seq > this.backlogCursor)) {
+      this.backlogCursor = seq;
     }
   }
 
@@ -1,3 +1,15 @@
+import type { MessageQuote } from '../../shared/protocol';
+
+// Wire types shared with the server
+export { CloseCode } from '../../shared/protocol';
+export type { Capability, ContentType, MessageQuote, PresenceState, RoomSettings } from '../../shared/protocol';
+
+// Delivery and read progress is tracked separately, per recipient
+export type MessageStatus = 'sending' | 'sent' | 'failed';
+
+// Emoji → IDs of the clients who reacted with it, in the order they reacted
+export type MessageReactions = Record<string, string[]>;
+
 export interface Message {
   id: string;
   type: 'text' | 'image' | 'video' | 'audio';
@@ -5,6 +17,24 @@ export interface Message {
   senderId: string;
   timestamp: number;
   file?: File;
+  // Created once per file and revoked when the message is unsent or the room is left
+  objectUrl?: string;
+  url?: string;
+  editedAt?: number;
+  // Unsent by its sender; the content and any media have been discarded
+  deleted?: boolean;
+  // Replayed from the room's backlog rather than received live
+  isHistory?: boolean;
+  // Own messages only: peers in the room when it was sent, and who has acknowledged it
+  status?: MessageStatus;
+  recipientCount?: number;
+  deliveredTo?: string[];
+  readBy?: string[];
+  reactions?: MessageReactions;
+  replyTo?: MessageQuote;
+  // Self-destruct time in milliseconds; the message is removed at expiresAt
+  ttl?: number;
+  expiresAt?: number;
 }
 
 export interface FileTransfer {
@@ -40,6 +70,19 @@ export interface Peer {
   lastSeen: number;
 }
 
+// A client waiting in the lobby, as shown to the room owner
+export interface JoinRequest {
+  clientId: string;
+  label: string;
+  expiresAt: number;
+}
+
+// When the room will close unless someone is active or extends it
+export interface RoomExpiry {
+  expiresAt: number;
+  reason: 'idle' | 'lifetime';
+}
+
 export interface RoomState {
   roomId: string;
   clientId: string;